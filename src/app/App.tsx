@@ -1,7 +1,107 @@
-import { createSignal, createEffect, For } from 'solid-js';
+import { createSignal, createEffect, createMemo, onCleanup, batch, For, Show } from 'solid-js';
+import { Chess, type Move } from 'chess.js';
 import './App.css';
 import Chessboard from './Chessboard';
-import { games, parseGame, type ParsedGame } from '../assets/games';
+import MoveList from './MoveList';
+import EvalBar from './EvalBar';
+import ImportDialog from './ImportDialog';
+import GameBrowser from './GameBrowser';
+import ExportDialog from './ExportDialog';
+import SnapshotDialog from './SnapshotDialog';
+import PieceSetDialog from './PieceSetDialog';
+import type { PieceModels } from './pieceUtils';
+import Overlay from './Overlay';
+import { games, groupBySource, parseGames, type ParsedGame } from '../assets/games';
+import {
+  checkGame,
+  checkPgnFile,
+  describeIssue,
+  hasIssues,
+  type PgnFileCheck,
+} from './pgnValidation';
+import {
+  findLinkedGame,
+  getGameKey,
+  getGameTitle,
+  openGameLibrary,
+  toParsedGame,
+  type GameLibrary,
+  type StoredGame,
+} from './gameLibrary';
+import {
+  createMainLine,
+  enterVariation,
+  exitVariation,
+  getMainLine,
+  getMainLineIndex,
+  getVariations,
+  getVariationDepth,
+  playMoves,
+  playUserMove,
+  createUserMove,
+  withUserLine,
+  type MoveLine,
+  type PgnMove,
+} from './moveTree';
+import {
+  describeMove,
+  getMoveComment,
+  getMoveNumberLabel,
+  getNagSymbols,
+  getReadingTime,
+} from './notation';
+import { getShortcutAction, SHORTCUT_HELP } from './keyboard';
+import { findOpening, trackGameOpenings, trackOpenings, withDetectedEco } from './openings';
+import { downloadPgn, gameToPgn, lineToPgn } from './pgnExport';
+import { downloadBlob } from './download';
+import { createBoardDiagram } from './boardDiagram';
+import { pixelsToPng, type SnapshotOptions } from './snapshot';
+import {
+  EXPORT_FPS,
+  getExportFilename,
+  planExportSegments,
+  recordClip,
+  type BoardCapture,
+  type ExportOptions,
+} from './videoExport';
+import {
+  createUciEngine,
+  createWorkerTransport,
+  formatScore,
+  uciToSan,
+  type EngineAnalysis,
+} from './uciEngine';
+import {
+  createPlaybackController,
+  getMoveAnimationDuration,
+  getUndoAnimationDuration,
+  PLAYBACK_SPEEDS,
+} from './playback';
+import { CROWN_DELAY } from './scene/crown';
+import {
+  CAMERA_VIEW_NAMES,
+  CAMERA_VIEWS,
+  getFlippedView,
+  type CameraPose,
+  type CameraViewName,
+} from './cameraViews';
+import { DEFAULT_THEME, THEME_NAMES, THEMES, type ThemeName } from './themes';
+import {
+  decompressPgn,
+  encodeSharedPgn,
+  formatUrlState,
+  parseUrlState,
+  SHARED_GAME_SOURCE,
+  URL_UPDATE_DELAY,
+  type UrlState,
+} from './urlState';
+import {
+  createStartingChess,
+  getStartingFen,
+  getStartingMoveNumber,
+  getStartingTurn,
+  isCustomStartingPosition,
+} from './positionUtils';
 import pauseIcon from '../assets/icons/pause.svg';
 import playIcon from '../assets/icons/play.svg';
 import resetIcon from '../assets/icons/reset.svg';
@@ -10,171 +110,575 @@ import backIcon from '../assets/icons/back.svg';
 import whiteKingIcon from '../assets/icons/whiteKing.svg';
 import blackKingIcon from '../assets/icons/blackKing.svg';
 import uploadIcon from '../assets/icons/upload.svg';
+import downloadIcon from '../assets/icons/download.svg';
 import infoIcon from '../assets/icons/info.svg';
-
-const NORMAL_MOVE_DELAY = 1500;
-const CAPTURE_MOVE_DELAY = 3000; // wait for capture animation to finish
-const ANIMATION_DELAY = 2000; // match crown delay in Chessboard
-const MOVE_ANIMATION_DURATION = 1000; // match ANIMATION_DURATION in Chessboard (1s)
+import flipIcon from '../assets/icons/flip.svg';
+import searchIcon from '../assets/icons/search.svg';
+import videoIcon from '../assets/icons/video.svg';
+import cameraIcon from '../assets/icons/camera.svg';
 
 function App() {
+  // A shared link's view and camera are needed before the board is built; the game and move
+  // are applied once the library has loaded
+  const initialUrlState = parseUrlState(window.location.hash);
   const [gameList, setGameList] = createSignal<ParsedGame[]>([...games]);
   const [selectedGame, setSelectedGame] = createSignal<ParsedGame | null>(games[0] || null);
+  const [line, setLine] = createSignal<MoveLine>(createMainLine(games[0]?.parsed));
   const [moveIndex, setMoveIndex] = createSignal(-1);
+  // When set, the board rebuilds at the new move index instead of animating to it
+  const [instantMoves, setInstantMoves] = createSignal(false);
   const [isPlaying, setIsPlaying] = createSignal(false);
-  let playIntervalId: number | undefined;
+  const [isAnimating, setIsAnimating] = createSignal(false);
+  const [speed, setSpeed] = createSignal(1);
+  const [cameraView, setCameraView] = createSignal<CameraViewName>(initialUrlState.view ?? 'white');
+  // Where the user has orbited the camera to, or null while it sits at the preset view
+  const [cameraPose, setCameraPose] = createSignal<CameraPose | null>(initialUrlState.camera);
+  const [theme, setTheme] = createSignal<ThemeName>(DEFAULT_THEME);
+  // Piece models the user uploaded, in place of the theme's
+  const [uploadedPieces, setUploadedPieces] = createSignal<Partial<PieceModels> | null>(null);
+  const [showNextMove, setShowNextMove] = createSignal(false);
+  const [showThreats, setShowThreats] = createSignal(false);
+  const [playMode, setPlayMode] = createSignal(false);
+  // When set, playback rests on commented moves long enough to read the comment
+  const [pauseForComments, setPauseForComments] = createSignal(false);
+  const [engineEnabled, setEngineEnabled] = createSignal(false);
+  const [engineError, setEngineError] = createSignal<string | null>(null);
+  const [analysis, setAnalysis] = createSignal<EngineAnalysis | null>(null);
+  // Position currently on the board, reported by Chessboard after every move
+  const [boardFen, setBoardFen] = createSignal<string | null>(null);
   let fileInputRef: HTMLInputElement | undefined;
   const [assetsLoaded, setAssetsLoaded] = createSignal(false);
+  // Share of the board's textures and models loaded. Files found inside models join the count
+  // as they are found, so the bar is kept from sliding back.
+  const [loadProgress, setLoadProgress] = createSignal(0);
   const [showAbout, setShowAbout] = createSignal(false);
   const [showGameInfo, setShowGameInfo] = createSignal(false);
+  const [showBrowser, setShowBrowser] = createSignal(false);
+  const [showExport, setShowExport] = createSignal(false);
+  const [showSnapshot, setShowSnapshot] = createSignal(false);
+  const [showPieceSet, setShowPieceSet] = createSignal(false);
+  const [promotionPending, setPromotionPending] = createSignal(false);
+  const [exportProgress, setExportProgress] = createSignal<number | null>(null);
   const [showScore, setShowScore] = createSignal(false);
-  const [isAnimating, setIsAnimating] = createSignal(false);
-  let lastMoveDirection: 'forward' | 'backward' = 'forward';
-  let animatingTimeout: ReturnType<typeof setTimeout> | null = null;
+  // Problems found in an uploaded file, waiting for the user to decide what to load
+  const [importCheck, setImportCheck] = createSignal<PgnFileCheck | null>(null);
   let scoreTimeout: ReturnType<typeof setTimeout> | null = null;
+  let library: GameLibrary | null = null;
+
+  // Uploaded games are kept in the browser and join the bundled ones on the next visit
+  openGameLibrary()
+    .then(async (opened) => {
+      library = opened;
+      const stored = (await opened.list()).flatMap((record) => toParsedGame(record) ?? []);
+      setGameList((prev) => [...prev, ...stored]);
+    })
+    .catch((e) => console.warn('Game library unavailable:', e))
+    .then(() => applyUrlState(initialUrlState))
+    .finally(() => setUrlRestored(true));
+  onCleanup(() => library?.close());
+
+  const getTotalMoves = () => {
+    if (!selectedGame()) return 0;
+    return line().moves.length;
+  };
+
+  // chess.js details of the current line, so playback knows how long each move animates
+  const resolvedMoves = createMemo(() =>
+    playMoves(createStartingChess(selectedGame()?.parsed), line().moves)
+  );
+
+  const playback = createPlaybackController({
+    getMoveCount: getTotalMoves,
+    getMoveDuration: (index, direction) =>
+      direction === 'forward'
+        ? getMoveAnimationDuration(resolvedMoves()[index])
+        : getUndoAnimationDuration(resolvedMoves()[index]),
+    getMovePause: (index) =>
+      pauseForComments() ? getReadingTime(getCommentary(line().moves[index]).text) : 0,
+    onIndexChange: (index, direction) => {
+      batch(() => {
+        setInstantMoves(direction === 'jump');
+        setMoveIndex(index);
+      });
+    },
+    onStateChange: (state) => {
+      batch(() => {
+        setIsPlaying(state.playing);
+        setIsAnimating(state.animating);
+      });
+    },
+  });
+  onCleanup(() => playback.dispose());
+
+  const selectGame = (game: ParsedGame | null) => {
+    batch(() => {
+      setSelectedGame(game);
+      setLine(createMainLine(game?.parsed));
+      playback.reset();
+    });
+    console.log('Selected game:', game?.parsed);
+  };
 
   const handleGameSelect = (e: Event) => {
     const select = e.target as HTMLSelectElement;
-    const gameName = select.value;
-    stopPlayback();
-    setMoveIndex(-1);
-    if (gameName) {
-      const game = gameList().find((g) => g.name === gameName);
-      setSelectedGame(game || null);
-      console.log('Selected game:', game?.parsed);
-    } else {
-      setSelectedGame(null);
-    }
+    const key = select.value;
+    selectGame(key ? gameList().find((g) => getGameKey(g) === key) || null : null);
   };
 
-  const getTotalMoves = () => {
+  const handleBrowserSelect = (game: ParsedGame) => {
+    setShowBrowser(false);
+    selectGame(game);
+  };
+
+  // Games set up from a FEN may start with black to move
+  const isWhiteToMove = () => {
+    const whiteStarts = getStartingTurn(selectedGame()?.parsed) === 'w';
+    return ((moveIndex() + 1) % 2 === 0) === whiteStarts;
+  };
+
+  // Side lines available in place of the next move
+  const nextVariations = () => getVariations(line(), moveIndex() + 1);
+
+  const handleEnterVariation = (variationIndex: number) => {
+    const branchIndex = moveIndex() + 1;
+    batch(() => {
+      setLine(enterVariation(line(), branchIndex, variationIndex));
+      playback.seek(branchIndex, 'forward');
+    });
+  };
+
+  // Jump straight to a move of the current line, e.g. from the move list
+  const handleJumpToMove = (index: number) => {
+    playback.seek(index);
+  };
+
+  const handleJumpToVariation = (index: number, variationIndex: number) => {
+    batch(() => {
+      setLine(enterVariation(line(), index, variationIndex));
+      playback.seek(index);
+    });
+  };
+
+  const handleExitVariation = () => {
+    const exited = exitVariation(line());
+    if (!exited) return;
+    batch(() => {
+      setLine(exited.line);
+      playback.seek(exited.moveIndex);
+    });
+  };
+
+  const handleTogglePlayMode = () => {
+    if (!playMode()) playback.pause();
+    setPlayMode(!playMode());
+  };
+
+  // A move made on the board follows the line if it is recorded there, otherwise it
+  // starts a branch of the user's own
+  const handleUserMove = (move: Move) => {
+    const index = moveIndex();
+    batch(() => {
+      setLine(playUserMove(line(), index, createUserMove(move)));
+      playback.seek(index + 1, 'forward');
+    });
+  };
+
+  // The board waits for the user to pick a promotion piece; nothing may move it meanwhile
+  const handlePromotionPending = (pending: boolean) => {
+    setPromotionPending(pending);
+    if (pending) playback.pause();
+  };
+
+  const handleExportLine = () => {
     const game = selectedGame();
-    if (!game) return 0;
-    return game.parsed[0]?.moves?.length || 0;
+    if (!game) return;
+    const name = game.name.replace(/\.pgn$/i, '');
+    downloadPgn(`${name} (line).pgn`, lineToPgn(game.parsed, line().moves));
   };
 
+  // The engine runs only while analysis is switched on and follows the board position
+  createEffect(() => {
+    if (!engineEnabled()) return;
+    setEngineError(null);
+    const engine = createUciEngine(createWorkerTransport());
+    const unsubscribe = engine.subscribe((event) => {
+      if (event.type === 'analysis') {
+        setAnalysis(event.analysis);
+      } else {
+        setEngineError(event.message);
+      }
+    });
+    createEffect(() => {
+      const fen = boardFen();
+      if (fen) engine.analyze(fen);
+    });
+    onCleanup(() => {
+      unsubscribe();
+      engine.dispose();
+      setAnalysis(null);
+    });
+  });
+
+  // Analysis still arriving for a previous position is not shown
+  const currentAnalysis = createMemo(() => {
+    const result = analysis();
+    return result && result.fen === boardFen() ? result : null;
+  });
+
+  const bestMoveSan = () => {
+    const result = currentAnalysis();
+    if (!result) return '';
+    return uciToSan(result.fen, result.pv.slice(0, 1))[0] ?? '';
+  };
+
+  const principalVariation = () => {
+    const result = currentAnalysis();
+    if (!result) return '';
+    return uciToSan(result.fen, result.pv.slice(0, 8)).join(' ');
+  };
+
+  // Caption for the move on the board: its NAGs and the comments before and after it
+  const getCommentary = (move: PgnMove | undefined) => ({
+    symbols: move ? getNagSymbols(move) : '',
+    text: move ? [move.commentMove?.trim(), getMoveComment(move)].filter(Boolean).join(' ') : '',
+  });
+
+  const commentary = () => {
+    const move = line().moves[moveIndex()];
+    if (!move) return null;
+    const { symbols, text } = getCommentary(move);
+    if (!symbols && !text) return null;
+    const label = getMoveNumberLabel(
+      moveIndex(),
+      getStartingTurn(selectedGame()?.parsed),
+      getStartingMoveNumber(selectedGame()?.parsed),
+      true
+    );
+    return { move: `${label} ${move.notation.notation}${symbols}`, text };
+  };
+
+  // "12... Nf6" for a move of the current game
+  const getMoveLabel = (moves: PgnMove[], index: number) => {
+    const label = getMoveNumberLabel(
+      index,
+      getStartingTurn(selectedGame()?.parsed),
+      getStartingMoveNumber(selectedGame()?.parsed),
+      true
+    );
+    return `${label} ${moves[index]?.notation.notation ?? ''}`;
+  };
+
+  // Openings by position along the line on the board, so variations and user moves count too
+  const lineOpenings = createMemo(() =>
+    trackOpenings(
+      getStartingFen(selectedGame()?.parsed),
+      resolvedMoves().map((move) => move.after)
+    )
+  );
+
+  const currentOpening = () => {
+    if (!selectedGame()) return null;
+    const index = moveIndex();
+    return index < 0
+      ? findOpening(getStartingFen(selectedGame()?.parsed))
+      : lineOpenings().openings[index];
+  };
+
+  // The move that took the line out of book, once the board has reached it
+  const bookExit = () => {
+    const exit = lineOpenings().bookExitIndex;
+    if (exit === null || moveIndex() < exit) return null;
+    return getMoveLabel(line().moves, exit);
+  };
+
+  // For the info dialog: the opening and book exit of the game as recorded
+  const gameOpenings = createMemo(() => {
+    const game = selectedGame();
+    return game ? trackGameOpenings(game.parsed) : null;
+  });
+
+  // The PGN's own Opening tag wins over the table
+  const openingSummary = () => {
+    const tags = selectedGame()?.parsed.tags;
+    const openings = gameOpenings()?.openings ?? [];
+    const detected = openings[openings.length - 1];
+    if (tags?.Opening) return [tags.ECO, tags.Opening].filter(Boolean).join(' ');
+    if (detected) return `${detected.eco} ${detected.name}`;
+    return tags?.ECO || 'Unknown';
+  };
+
+  const gameBookExit = () => {
+    const exit = gameOpenings()?.bookExitIndex ?? null;
+    return exit === null ? null : getMoveLabel(selectedGame()!.parsed.moves, exit);
+  };
+
+  // Reveal the result once the crowns appear at the end of the main line
   createEffect(() => {
     const idx = moveIndex();
     const total = getTotalMoves();
-    if (animatingTimeout) {
-      clearTimeout(animatingTimeout);
-      animatingTimeout = null;
-    }
-    if (idx >= 0 && lastMoveDirection === 'forward') {
-      setIsAnimating(true);
-      animatingTimeout = setTimeout(() => {
-        animatingTimeout = null;
-        setIsAnimating(false);
-      }, MOVE_ANIMATION_DURATION);
-    } else {
-      setIsAnimating(false);
-    }
     if (scoreTimeout) {
       clearTimeout(scoreTimeout);
       scoreTimeout = null;
     }
     setShowScore(false);
-    if (idx >= total - 1 && total > 0) {
-      scoreTimeout = setTimeout(() => {
-        scoreTimeout = null;
-        setShowScore(true);
-      }, ANIMATION_DELAY);
+    if (idx >= total - 1 && total > 0 && !line().parent) {
+      scoreTimeout = setTimeout(
+        () => {
+          scoreTimeout = null;
+          setShowScore(true);
+        },
+        (CROWN_DELAY * 1000) / speed()
+      );
     }
   });
 
-  const stopPlayback = () => {
-    if (playIntervalId) {
-      clearTimeout(playIntervalId);
-      playIntervalId = undefined;
+  const handlePlay = () => {
+    if (!selectedGame()) return;
+    playback.toggle();
+  };
+
+  const handleReset = () => {
+    batch(() => {
+      setLine(getMainLine(line()));
+      playback.reset();
+    });
+  };
+
+  const handleStepForward = () => {
+    playback.stepForward();
+  };
+
+  const handleStepBack = () => {
+    playback.stepBack();
+  };
+
+  const handleSpeedChange = (e: Event) => {
+    const value = parseFloat((e.target as HTMLSelectElement).value);
+    playback.setSpeed(value);
+    setSpeed(playback.getSpeed());
+  };
+
+  const changeCameraView = (view: CameraViewName) => {
+    batch(() => {
+      setCameraView(view);
+      setCameraPose(null);
+    });
+  };
+
+  const handleFlipBoard = () => {
+    changeCameraView(getFlippedView(cameraView()));
+  };
+
+  const handleCameraViewChange = (e: Event) => {
+    changeCameraView((e.target as HTMLSelectElement).value as CameraViewName);
+  };
+
+  // Set once the link the page was opened with has been applied; until then the address
+  // bar is left alone
+  const [urlRestored, setUrlRestored] = createSignal(false);
+  // Compressed PGN of each game that has been put in a link, or null if it is too long
+  const sharedPgns = new WeakMap<ParsedGame['parsed'], Promise<string | null>>();
+
+  const getSharedPgn = (game: ParsedGame) => {
+    let pgn = sharedPgns.get(game.parsed);
+    if (!pgn) {
+      pgn = encodeSharedPgn(gameToPgn(game.parsed)).catch(() => null);
+      sharedPgns.set(game.parsed, pgn);
     }
-    setIsPlaying(false);
+    return pgn;
   };
 
-  const isCaptureMove = (idx: number): boolean => {
-    const game = selectedGame();
-    if (!game) return false;
-    const moves = game.parsed[0]?.moves;
-    if (!moves || idx < 0 || idx >= moves.length) return false;
-    const notation = moves[idx]?.notation?.notation || '';
-    return notation.includes('x');
-  };
-
-  const scheduleNextMove = () => {
-    const totalMoves = getTotalMoves();
-    const currentIdx = moveIndex();
-    const delay = isCaptureMove(currentIdx) ? CAPTURE_MOVE_DELAY : NORMAL_MOVE_DELAY;
-
-    playIntervalId = setTimeout(() => {
-      setMoveIndex((prev) => {
-        const next = prev + 1;
-        if (next >= totalMoves) {
-          stopPlayback();
-          return prev;
-        }
-        return next;
-      });
-      if (isPlaying()) {
-        scheduleNextMove();
+  const openSharedGame = async (encoded: string) => {
+    for (const game of gameList().filter((g) => g.source === SHARED_GAME_SOURCE)) {
+      if ((await sharedPgns.get(game.parsed)) === encoded) return game;
+    }
+    const [parsed] = parseGames(SHARED_GAME_SOURCE, await decompressPgn(encoded));
+    if (!parsed) return null;
+    // A link is checked like an upload, so the board never stops short at an illegal move
+    const { issues, legalGame: game } = checkGame(parsed);
+    if (issues.length) {
+      const problem = describeIssue(issues[0]);
+      alert(
+        game
+          ? `The game in the link stops early. ${problem}`
+          : `Could not open the game in the link. ${problem}`
+      );
+    }
+    if (!game) return null;
+    sharedPgns.set(game.parsed, Promise.resolve(encoded));
+    setGameList((prev) => [...prev, game]);
+    return game;
+  };
+
+  // Open the game, move and view a link points to
+  const applyUrlState = async (state: UrlState) => {
+    // A game carried in the link wins over anything in this browser that shares its key
+    let game: ParsedGame | null = null;
+    if (state.pgn) {
+      try {
+        game = await openSharedGame(state.pgn);
+      } catch (e) {
+        console.warn('Could not open the game in the link:', e);
+      }
+    }
+    game ??= findLinkedGame(state, gameList(), games);
+    batch(() => {
+      if (state.view && state.view !== cameraView()) changeCameraView(state.view);
+      if (game) {
+        selectGame(game);
+        playback.seek(state.moveIndex ?? -1);
       }
-    }, delay) as unknown as number;
+    });
   };
 
-  const handlePlay = () => {
-    lastMoveDirection = 'forward';
+  const handleHashChange = () => {
+    applyUrlState(parseUrlState(window.location.hash));
+  };
+  window.addEventListener('hashchange', handleHashChange);
+
+  // Keep the address bar pointing at what is on screen, so it can be bookmarked or shared
+  let urlTimeout: ReturnType<typeof setTimeout> | null = null;
+  let urlWrites = 0;
+  const writeUrlState = async (game: ParsedGame | null, state: UrlState) => {
+    const write = ++urlWrites;
+    // Uploaded games only exist in this browser, so the link carries the game itself
+    const pgn = game && !games.includes(game) ? await getSharedPgn(game) : null;
+    if (write !== urlWrites) return;
+    const { pathname, search } = window.location;
+    // The game's own key is left out of a link that carries it, as it means nothing elsewhere
+    const shared = pgn ? { ...state, game: null, pgn } : state;
+    history.replaceState(null, '', pathname + search + formatUrlState(shared));
+  };
+
+  createEffect(() => {
+    if (!urlRestored()) return;
     const game = selectedGame();
-    if (!game) return;
+    const state: UrlState = {
+      game: game ? getGameKey(game) : null,
+      pgn: null,
+      moveIndex: game ? getMainLineIndex(line(), moveIndex()) : null,
+      view: cameraView() === 'white' ? null : cameraView(),
+      camera: cameraPose(),
+    };
+    if (urlTimeout) clearTimeout(urlTimeout);
+    urlTimeout = setTimeout(() => {
+      urlTimeout = null;
+      writeUrlState(game, state);
+    }, URL_UPDATE_DELAY);
+  });
 
-    if (isPlaying()) {
-      stopPlayback();
-      return;
+  onCleanup(() => {
+    window.removeEventListener('hashchange', handleHashChange);
+    if (urlTimeout) clearTimeout(urlTimeout);
+  });
+
+  // Dragging the timeline jumps straight to the position rather than animating each move
+  const handleScrub = (e: Event) => {
+    const value = parseInt((e.target as HTMLInputElement).value, 10);
+    if (value !== moveIndex()) {
+      playback.seek(value);
     }
+  };
 
-    setIsPlaying(true);
-    const totalMoves = getTotalMoves();
+  const handleUploadPgn = () => {
+    fileInputRef?.click();
+  };
+
+  // Save the game, including the line the user is playing if they have made moves of their own
+  const handleDownloadPgn = () => {
+    const game = selectedGame();
+    if (!game) return;
+    const tree = line().userBranch ? withUserLine(game.parsed, line()) : game.parsed;
+    downloadPgn(`${game.name}.pgn`, gameToPgn(tree));
+  };
 
-    // If at the end, restart from beginning
-    if (moveIndex() >= totalMoves - 1) {
-      setMoveIndex(-1);
+  // Uploads are saved to the library first so they can be renamed, tagged and found again
+  const loadGames = async (imported: ParsedGame[]) => {
+    if (!imported.length) return;
+    const loaded = imported.map(withDetectedEco);
+    let added = loaded;
+    if (library) {
+      try {
+        const stored = await library.add(loaded);
+        added = loaded.map((game, i) => ({ ...game, pgn: stored[i].pgn, libraryId: stored[i].id }));
+      } catch (e) {
+        console.warn('Could not save games to the library:', e);
+      }
     }
+    batch(() => {
+      setGameList((prev) => [...prev, ...added]);
+      setSelectedGame(added[0]);
+      setLine(createMainLine(added[0].parsed));
+      playback.reset();
+    });
+  };
 
-    // Start the first move with a shorter delay
-    setTimeout(() => {
-      setMoveIndex((prev) => {
-        const next = prev + 1;
-        if (next >= totalMoves) {
-          stopPlayback();
-          return prev;
-        }
-        return next;
-      });
-      scheduleNextMove();
-    }, 300);
+  // Swap a library game for its updated copy; the board keeps its position
+  const updateLibraryGame = (stored: StoredGame | null) => {
+    if (!stored) return;
+    const update = (game: ParsedGame) =>
+      game.libraryId === stored.id
+        ? { ...game, title: stored.title ?? undefined, labels: stored.labels }
+        : game;
+    batch(() => {
+      setGameList((prev) => prev.map(update));
+      const current = selectedGame();
+      if (current) setSelectedGame(update(current));
+    });
   };
 
-  const handleReset = () => {
-    stopPlayback();
-    setMoveIndex(-1);
+  const handleRenameGame = async () => {
+    const game = selectedGame();
+    if (!library || game?.libraryId === undefined) return;
+    const title = prompt('Name this game (leave empty to show the players)', getGameTitle(game));
+    if (title === null) return;
+    try {
+      updateLibraryGame(await library.rename(game.libraryId, title));
+    } catch (e) {
+      console.warn('Could not rename the game:', e);
+      alert('Could not save the new name');
+    }
   };
 
-  const handleStepForward = () => {
-    stopPlayback();
-    lastMoveDirection = 'forward';
-    const totalMoves = getTotalMoves();
-    if (moveIndex() < totalMoves - 1) {
-      setMoveIndex((prev) => prev + 1);
+  const handleTagGame = async () => {
+    const game = selectedGame();
+    if (!library || game?.libraryId === undefined) return;
+    const labels = prompt('Tags, separated by commas', (game.labels ?? []).join(', '));
+    if (labels === null) return;
+    try {
+      updateLibraryGame(await library.setLabels(game.libraryId, labels.split(',')));
+    } catch (e) {
+      console.warn('Could not tag the game:', e);
+      alert('Could not save the tags');
     }
   };
 
-  const handleStepBack = () => {
-    stopPlayback();
-    lastMoveDirection = 'backward';
-    if (moveIndex() >= 0) {
-      setMoveIndex((prev) => prev - 1);
+  const handleDeleteGame = async () => {
+    const game = selectedGame();
+    if (!library || game?.libraryId === undefined) return;
+    if (!confirm(`Remove "${getGameTitle(game)}" from your library?`)) return;
+    try {
+      await library.remove(game.libraryId);
+    } catch (e) {
+      console.warn('Could not remove the game:', e);
+      alert('Could not remove the game from your library');
+      return;
     }
+    const remaining = gameList().filter((g) => g.libraryId !== game.libraryId);
+    batch(() => {
+      setGameList(remaining);
+      setSelectedGame(remaining[0] || null);
+      setLine(createMainLine(remaining[0]?.parsed));
+      playback.reset();
+    });
   };
 
-  const handleUploadPgn = () => {
-    fileInputRef?.click();
+  // Load what can be played of each game in the file, up to its first illegal move
+  const handleLoadLegalPrefix = () => {
+    const check = importCheck();
+    setImportCheck(null);
+    if (!check) return;
+    loadGames(check.games.flatMap((game) => (game.legalGame ? [game.legalGame] : [])));
   };
 
   const handleFileChange = (e: Event) => {
@@ -183,18 +687,18 @@ function App() {
     if (!file) return;
     const reader = new FileReader();
     reader.onload = () => {
+      let check: PgnFileCheck;
       try {
-        const pgnContent = reader.result as string;
-        const parsed = parseGame(file.name, pgnContent);
-        if (!parsed.parsed[0]?.moves?.length) {
-          throw new Error('No moves found');
-        }
-        setGameList((prev) => [...prev, parsed]);
-        stopPlayback();
-        setMoveIndex(-1);
-        setSelectedGame(parsed);
-      } catch {
+        check = checkPgnFile(file.name, reader.result as string);
+      } catch (error) {
+        console.error('Failed to check PGN:', error);
         alert('Error reading PGN');
+        return;
+      }
+      if (hasIssues(check)) {
+        setImportCheck(check);
+      } else {
+        loadGames(check.games.map((game) => game.game));
       }
     };
     reader.onerror = () => {
@@ -204,35 +708,245 @@ function App() {
     input.value = '';
   };
 
+  // Board handed over by Chessboard for recording, and the recording in progress
+  let boardCapture: BoardCapture | null = null;
+  let exportAbort: AbortController | null = null;
+
+  // Film a range of the line on the board, then put the board back where it was
+  const handleExport = async (options: ExportOptions) => {
+    const game = selectedGame();
+    if (!game || !boardCapture || exportAbort) return;
+    playback.pause();
+    const savedIndex = moveIndex();
+    const segments = planExportSegments(
+      resolvedMoves(),
+      options,
+      EXPORT_FPS[options.format],
+      speed()
+    );
+    exportAbort = new AbortController();
+    setExportProgress(0);
+    try {
+      const clip = await recordClip(boardCapture, options, segments, {
+        showMove: (index, animate) =>
+          batch(() => {
+            setInstantMoves(!animate);
+            setMoveIndex(index);
+          }),
+        onProgress: setExportProgress,
+        signal: exportAbort.signal,
+      });
+      if (clip) {
+        downloadBlob(getExportFilename(getGameTitle(game), options.format), clip);
+        setShowExport(false);
+      }
+    } catch (e) {
+      console.error('Clip export failed:', e);
+      alert('Could not record the clip');
+    } finally {
+      exportAbort = null;
+      setExportProgress(null);
+      playback.seek(savedIndex, 'jump');
+    }
+  };
+
+  // Snapshots and diagrams are named after the game and the move on the board
+  const getSnapshotName = () => {
+    const game = selectedGame();
+    if (!game) return 'board';
+    return moveIndex() < 0 ? getGameTitle(game) : `${getGameTitle(game)} move ${moveIndex() + 1}`;
+  };
+
+  const handleSavePicture = async (options: SnapshotOptions) => {
+    if (!boardCapture) return;
+    try {
+      const { pixels, width, height } = boardCapture.snapshot(options);
+      downloadBlob(
+        getExportFilename(getSnapshotName(), 'png'),
+        await pixelsToPng(pixels, width, height)
+      );
+    } catch (e) {
+      console.error('Snapshot failed:', e);
+      alert('Could not render the picture at that size');
+    }
+  };
+
+  // The position on the board as a printed diagram, from the side the camera is on
+  const handleSaveDiagram = (coordinates: boolean) => {
+    const chess = boardFen() ? new Chess(boardFen()!) : new Chess();
+    const svg = createBoardDiagram(chess.board(), {
+      flipped: cameraView() === 'black',
+      coordinates,
+    });
+    downloadBlob(
+      getExportFilename(getSnapshotName(), 'svg'),
+      new Blob([svg], { type: 'image/svg+xml' })
+    );
+  };
+
+  const dialogOpen = () =>
+    showAbout() ||
+    showGameInfo() ||
+    showBrowser() ||
+    showExport() ||
+    showSnapshot() ||
+    showPieceSet() ||
+    promotionPending() ||
+    !!importCheck();
+
+  // Keyboard playback; left alone while a dialog is open or a focused control needs the key
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (dialogOpen()) return;
+    const action = getShortcutAction({
+      key: e.key,
+      ctrlKey: e.ctrlKey,
+      metaKey: e.metaKey,
+      altKey: e.altKey,
+      target: e.target as HTMLElement | null,
+    });
+    if (!action) return;
+    e.preventDefault();
+    switch (action.type) {
+      case 'stepForward':
+        handleStepForward();
+        break;
+      case 'stepBack':
+        handleStepBack();
+        break;
+      case 'togglePlay':
+        handlePlay();
+        break;
+      case 'reset':
+        handleReset();
+        break;
+      case 'end':
+        playback.seek(getTotalMoves() - 1);
+        break;
+      case 'flip':
+        handleFlipBoard();
+        break;
+      case 'view':
+        changeCameraView(action.view);
+        break;
+    }
+  };
+  window.addEventListener('keydown', handleKeyDown);
+  onCleanup(() => window.removeEventListener('keydown', handleKeyDown));
+
+  // Spoken form of the move on the board, read out by screen readers as it changes
+  const moveAnnouncement = () => {
+    // A recording flies through the moves; nothing worth reading out
+    if (!selectedGame() || exportProgress() !== null) return '';
+    const move = resolvedMoves()[moveIndex()];
+    return move ? describeMove(move) : 'Starting position';
+  };
+
   return (
     <div class="app">
       <div class="header-row">
-        <h1>{assetsLoaded() ? 'FAMOUS GAMES 3D' : 'FAMOUS GAMES 3D (LOADING...)'}</h1>
+        <h1>FAMOUS GAMES 3D</h1>
+        <Show when={!assetsLoaded() || loadProgress() < 1}>
+          <progress
+            class="load-progress"
+            value={loadProgress()}
+            max={1}
+            title={`Loading ${Math.floor(loadProgress() * 100)}%`}
+            aria-label="Loading the board"
+          />
+        </Show>
         <div class="controls">
           <select
             title="Select a game"
+            aria-label="Game"
             id="game-select"
             onChange={handleGameSelect}
-            value={selectedGame()?.name}
+            value={selectedGame() ? getGameKey(selectedGame()!) : ''}
           >
-            <For each={gameList()}>
-              {(game) => (
-                <option value={game.name}>
-                  {game.parsed[0]?.tags?.White || 'Unknown'} Vs.{' '}
-                  {game.parsed[0]?.tags?.Black || 'Unknown'}
-                </option>
+            <For each={groupBySource(gameList())}>
+              {(group) => (
+                <optgroup label={group.source}>
+                  <For each={group.games}>
+                    {(game) => (
+                      <option value={getGameKey(game)}>
+                        {getGameTitle(game)}
+                        {game.labels?.length ? ` [${game.labels.join(', ')}]` : ''}
+                      </option>
+                    )}
+                  </For>
+                </optgroup>
               )}
             </For>
           </select>
-          <button class="info-btn" onClick={() => setShowGameInfo(true)} title="Game Info">
-            <img src={infoIcon} alt="Game Info" class="button-icon" />
+          <button
+            class="info-btn"
+            onClick={() => setShowBrowser(true)}
+            title="Search games"
+            aria-label="Search games"
+          >
+            <img src={searchIcon} alt="" class="button-icon" />
+          </button>
+          <button
+            class="info-btn"
+            onClick={() => setShowGameInfo(true)}
+            title="Game Info"
+            aria-label="Game info"
+          >
+            <img src={infoIcon} alt="" class="button-icon" />
+          </button>
+          <Show when={selectedGame()?.libraryId !== undefined}>
+            <div class="library-controls">
+              <button class="library-btn" onClick={handleRenameGame} title="Rename this game">
+                Rename
+              </button>
+              <button class="library-btn" onClick={handleTagGame} title="Tag this game">
+                Tags
+              </button>
+              <button
+                class="library-btn"
+                onClick={handleDeleteGame}
+                title="Remove this game from your library"
+              >
+                Delete
+              </button>
+            </div>
+          </Show>
+          <button
+            class="upload-btn"
+            onClick={handleUploadPgn}
+            title="Upload a PGN"
+            aria-label="Upload a PGN"
+          >
+            <img src={uploadIcon} alt="" class="button-icon" />
           </button>
-          <button class="upload-btn" onClick={handleUploadPgn} title="Upload a PGN">
-            <img src={uploadIcon} alt="Upload a PGN" class="button-icon" />
+          <button
+            class="upload-btn"
+            onClick={() => setShowSnapshot(true)}
+            title="Save a picture or diagram of the board"
+            aria-label="Save a picture or diagram of the board"
+          >
+            <img src={cameraIcon} alt="" class="button-icon" />
+          </button>
+          <button
+            class="upload-btn"
+            onClick={() => setShowExport(true)}
+            title="Record a clip of this game"
+            aria-label="Record a clip of this game"
+            disabled={!selectedGame() || !getTotalMoves()}
+          >
+            <img src={videoIcon} alt="" class="button-icon" />
+          </button>
+          <button
+            class="upload-btn"
+            onClick={handleDownloadPgn}
+            title="Download this game as PGN"
+            aria-label="Download this game as PGN"
+            disabled={!selectedGame()}
+          >
+            <img src={downloadIcon} alt="" class="button-icon" />
           </button>
           <input
             type="file"
-            accept="text/pgn"
+            accept=".pgn,application/x-chess-pgn,application/vnd.chess-pgn"
             ref={fileInputRef}
             onChange={handleFileChange}
             style={{ display: 'none' }}
@@ -242,29 +956,33 @@ function App() {
       {selectedGame() && (
         <div class="controls-row">
           <div class="playback-controls">
-            <button onClick={handleReset} title="Reset">
-              <img src={resetIcon} alt="Reset" class="button-icon" />
+            <button onClick={handleReset} title="Reset (Home)" aria-label="Reset">
+              <img src={resetIcon} alt="" class="button-icon" />
             </button>
-            <button onClick={handleStepBack} title="Step Back">
-              <img src={backIcon} alt="Step Back" class="button-icon" />
+            <button onClick={handleStepBack} title="Step Back (←)" aria-label="Step back">
+              <img src={backIcon} alt="" class="button-icon" />
             </button>
-            <button onClick={handlePlay} title={isPlaying() ? 'Pause' : 'Play'}>
+            <button
+              onClick={handlePlay}
+              title={isPlaying() ? 'Pause (Space)' : 'Play (Space)'}
+              aria-label={isPlaying() ? 'Pause' : 'Play'}
+            >
               {isPlaying() ? (
-                <img src={pauseIcon} alt="Pause" class="button-icon" />
+                <img src={pauseIcon} alt="" class="button-icon" />
               ) : (
-                <img src={playIcon} alt="Play" class="button-icon" />
+                <img src={playIcon} alt="" class="button-icon" />
               )}
             </button>
-            <button onClick={handleStepForward} title="Step Forward">
-              <img src={forwardIcon} alt="Forward" class="button-icon" />
+            <button onClick={handleStepForward} title="Step Forward (→)" aria-label="Step forward">
+              <img src={forwardIcon} alt="" class="button-icon" />
             </button>
           </div>
           <span class="turn-icon">
             {!isPlaying() && !isAnimating() && moveIndex() < getTotalMoves() - 1 && (
               <img
-                title={(moveIndex() + 1) % 2 === 0 ? 'White to move' : 'Black to move'}
-                src={(moveIndex() + 1) % 2 === 0 ? whiteKingIcon : blackKingIcon}
-                alt={(moveIndex() + 1) % 2 === 0 ? 'White to move' : 'Black to move'}
+                title={isWhiteToMove() ? 'White to move' : 'Black to move'}
+                src={isWhiteToMove() ? whiteKingIcon : blackKingIcon}
+                alt={isWhiteToMove() ? 'White to move' : 'Black to move'}
               />
             )}
           </span>
@@ -272,15 +990,239 @@ function App() {
             {String(moveIndex() + 1).padStart(3, '0')}/{String(getTotalMoves()).padStart(3, '0')}
           </span>
           <span title="Game result">
-            {showScore() ? selectedGame()?.parsed[0]?.tags?.Result || '----' : '----'}
+            {showScore() ? selectedGame()?.parsed.tags?.Result || '----' : '----'}
           </span>
+          <Show when={line().parent}>
+            <span title="Variation depth" class="variation-depth">
+              VAR {getVariationDepth(line())}
+            </span>
+          </Show>
+          <select
+            title="Playback speed"
+            aria-label="Playback speed"
+            class="speed-select"
+            onChange={handleSpeedChange}
+            value={String(speed())}
+          >
+            <For each={PLAYBACK_SPEEDS}>
+              {(option) => <option value={String(option)}>{option}x</option>}
+            </For>
+          </select>
+          <div class="view-controls">
+            <button onClick={handleFlipBoard} title="Flip board (F)" aria-label="Flip board">
+              <img src={flipIcon} alt="" class="button-icon" />
+            </button>
+            <select
+              title="Camera view (1-4)"
+              aria-label="Camera view"
+              class="view-select"
+              onChange={handleCameraViewChange}
+              value={cameraView()}
+            >
+              <For each={CAMERA_VIEW_NAMES}>
+                {(name) => <option value={name}>{CAMERA_VIEWS[name].label}</option>}
+              </For>
+            </select>
+            <select
+              title="Board theme"
+              aria-label="Board theme"
+              class="view-select"
+              onChange={(e) => setTheme(e.currentTarget.value as ThemeName)}
+              value={theme()}
+            >
+              <For each={THEME_NAMES}>
+                {(name) => <option value={name}>{THEMES[name].label}</option>}
+              </For>
+            </select>
+            <button
+              class="library-btn"
+              onClick={() => setShowPieceSet(true)}
+              title="Use your own piece models"
+            >
+              Pieces
+            </button>
+            <label class="overlay-toggle" title="Show an arrow for the next move">
+              <input
+                type="checkbox"
+                checked={showNextMove()}
+                onChange={(e) => setShowNextMove(e.currentTarget.checked)}
+              />
+              Next
+            </label>
+            <label
+              class="overlay-toggle"
+              title="Show undefended pieces the side to move can capture"
+            >
+              <input
+                type="checkbox"
+                checked={showThreats()}
+                onChange={(e) => setShowThreats(e.currentTarget.checked)}
+              />
+              Threats
+            </label>
+            <label class="overlay-toggle" title="Analyse the position with a local UCI engine">
+              <input
+                type="checkbox"
+                checked={engineEnabled()}
+                onChange={(e) => setEngineEnabled(e.currentTarget.checked)}
+              />
+              Engine
+            </label>
+            <label class="overlay-toggle" title="Rest on commented moves long enough to read them">
+              <input
+                type="checkbox"
+                checked={pauseForComments()}
+                onChange={(e) => setPauseForComments(e.currentTarget.checked)}
+              />
+              Read
+            </label>
+          </div>
+        </div>
+      )}
+      {selectedGame() && (
+        <div class="timeline-row">
+          <input
+            type="range"
+            class="timeline"
+            title="Scrub through the game"
+            aria-label="Move"
+            aria-valuetext={moveAnnouncement()}
+            min={-1}
+            max={getTotalMoves() - 1}
+            step={1}
+            value={moveIndex()}
+            onInput={handleScrub}
+          />
         </div>
       )}
-      <Chessboard
-        game={selectedGame()}
-        moveIndex={moveIndex()}
-        onLoaded={() => setAssetsLoaded(true)}
-      />
+      <Show when={currentOpening()}>
+        {(opening) => (
+          <div class="opening-row">
+            <span class="opening-eco">{opening().eco}</span>
+            <span>{opening().name}</span>
+            <Show when={bookExit()}>
+              {(exit) => <span class="opening-book">Out of book after {exit()}</span>}
+            </Show>
+          </div>
+        )}
+      </Show>
+      <Show when={selectedGame()}>
+        <div class="variation-row">
+          <button
+            class="variation-btn"
+            classList={{ active: playMode() }}
+            onClick={handleTogglePlayMode}
+            title="Move the pieces yourself from the current position"
+          >
+            {playMode() ? 'Stop playing' : 'Play from here'}
+          </button>
+          <Show when={nextVariations().length > 0}>
+            <span class="variation-label">Next:</span>
+            <button
+              class="variation-btn"
+              onClick={handleStepForward}
+              title="Continue with this line"
+            >
+              {line().moves[moveIndex() + 1]?.notation?.notation}
+            </button>
+            <For each={nextVariations()}>
+              {(variation, i) => (
+                <button
+                  class="variation-btn"
+                  onClick={() => handleEnterVariation(i())}
+                  title="Step into this variation"
+                >
+                  ({variation[0]?.notation?.notation})
+                </button>
+              )}
+            </For>
+          </Show>
+          <Show when={line().parent}>
+            <button class="variation-btn" onClick={handleExitVariation} title="Back to main line">
+              Back to {getVariationDepth(line()) > 1 ? 'parent line' : 'main line'}
+            </button>
+          </Show>
+          <Show when={line().userBranch}>
+            <button class="variation-btn" onClick={handleExportLine} title="Save this line as PGN">
+              Export line
+            </button>
+          </Show>
+        </div>
+      </Show>
+      <Show when={engineEnabled()}>
+        <div class="engine-row">
+          <Show
+            when={!engineError()}
+            fallback={<span class="engine-error">Engine unavailable: {engineError()}</span>}
+          >
+            <Show when={currentAnalysis()} fallback={<span>Analysing…</span>}>
+              {(result) => (
+                <>
+                  <span title="Evaluation for white">{formatScore(result().score)}</span>
+                  <Show when={bestMoveSan()}>
+                    <span title="Engine's best move">Best: {bestMoveSan()}</span>
+                  </Show>
+                  <span title="Search depth">d{result().depth}</span>
+                  <span class="engine-pv" title="Principal variation">
+                    {principalVariation()}
+                  </span>
+                </>
+              )}
+            </Show>
+          </Show>
+        </div>
+      </Show>
+      <Show when={commentary()}>
+        {(caption) => (
+          <div class="commentary" aria-live="polite">
+            <span class="commentary-move">{caption().move}</span>
+            <Show when={caption().text}>
+              <span class="commentary-text">{caption().text}</span>
+            </Show>
+          </div>
+        )}
+      </Show>
+      <div class="sr-only" aria-live="polite" aria-atomic="true">
+        {moveAnnouncement()}
+      </div>
+      <div class="board-row">
+        <Show when={engineEnabled() && !engineError()}>
+          <EvalBar analysis={currentAnalysis()} />
+        </Show>
+        <Chessboard
+          game={selectedGame()}
+          line={line()}
+          moveIndex={moveIndex()}
+          instant={instantMoves()}
+          speed={speed()}
+          cameraView={cameraView()}
+          theme={theme()}
+          pieces={uploadedPieces()}
+          initialCameraPose={initialUrlState.camera}
+          onCameraPoseChange={setCameraPose}
+          showNextMove={showNextMove()}
+          showThreats={showThreats()}
+          interactive={playMode()}
+          onUserMove={handleUserMove}
+          onPromotionPending={handlePromotionPending}
+          bestMove={engineEnabled() ? (currentAnalysis()?.pv[0] ?? null) : null}
+          onPositionChange={setBoardFen}
+          onLoaded={() => setAssetsLoaded(true)}
+          onLoadProgress={(fraction) => setLoadProgress((shown) => Math.max(shown, fraction))}
+          onCaptureReady={(capture) => (boardCapture = capture)}
+        />
+        <Show when={selectedGame()}>
+          <MoveList
+            moves={line().moves}
+            currentIndex={moveIndex()}
+            startTurn={getStartingTurn(selectedGame()?.parsed)}
+            startMoveNumber={getStartingMoveNumber(selectedGame()?.parsed)}
+            gameComment={selectedGame()?.parsed.gameComment?.comment}
+            onSelect={handleJumpToMove}
+            onSelectVariation={handleJumpToVariation}
+          />
+        </Show>
+      </div>
       <div class="footer-row">
         <a
           class="notes"
@@ -289,74 +1231,153 @@ function App() {
         >
           https://github.com/smycynek/famousgames3d-v4
         </a>
-        <button class="about-btn" onClick={() => setShowAbout(true)} title="About">
-          <img src={infoIcon} alt="About" class="button-icon" />
+        <button
+          class="about-btn"
+          onClick={() => setShowAbout(true)}
+          title="About"
+          aria-label="About"
+        >
+          <img src={infoIcon} alt="" class="button-icon" />
         </button>
       </div>
       {showGameInfo() && (
-        <div class="about-overlay" onClick={() => setShowGameInfo(false)}>
-          <div class="game-info-dialog" onClick={() => setShowGameInfo(false)}>
-            <h1 class="game-info-title">GAME INFO</h1>
-            <p>
-              <strong>White:</strong> {selectedGame()?.parsed[0]?.tags?.White || 'Unknown'}
-            </p>
-            <p>
-              <strong>Black:</strong> {selectedGame()?.parsed[0]?.tags?.Black || 'Unknown'}
-            </p>
-            <p>
-              <strong>Event:</strong> {selectedGame()?.parsed[0]?.tags?.Event || 'Unknown'}
-            </p>
+        <Overlay
+          class="game-info-dialog"
+          label="Game info"
+          onClose={() => setShowGameInfo(false)}
+          closeOnClick
+        >
+          <h1 class="game-info-title">GAME INFO</h1>
+          <p>
+            <strong>White:</strong> {selectedGame()?.parsed.tags?.White || 'Unknown'}
+          </p>
+          <p>
+            <strong>Black:</strong> {selectedGame()?.parsed.tags?.Black || 'Unknown'}
+          </p>
+          <p>
+            <strong>Event:</strong> {selectedGame()?.parsed.tags?.Event || 'Unknown'}
+          </p>
+          <p>
+            <strong>Site:</strong> {selectedGame()?.parsed.tags?.Site || 'Unknown'}
+          </p>
+          <p>
+            <strong>Date:</strong>{' '}
+            {selectedGame()?.parsed.tags?.Date?.value ||
+              selectedGame()?.parsed.tags?.Date ||
+              'Unknown'}
+          </p>
+          <p>
+            <strong>Winner:</strong>{' '}
+            {selectedGame()?.parsed.tags?.Result === '1-0'
+              ? 'White'
+              : selectedGame()?.parsed.tags?.Result === '0-1'
+                ? 'Black'
+                : selectedGame()?.parsed.tags?.Result === '1/2-1/2'
+                  ? 'Draw'
+                  : 'Unknown'}
+          </p>
+          <p>
+            <strong>Opening:</strong> {openingSummary()}
+          </p>
+          <Show when={gameBookExit()}>
             <p>
-              <strong>Site:</strong> {selectedGame()?.parsed[0]?.tags?.Site || 'Unknown'}
+              <strong>Left book:</strong> {gameBookExit()}
             </p>
+          </Show>
+          <Show when={selectedGame()?.labels?.length}>
             <p>
-              <strong>Date:</strong>{' '}
-              {selectedGame()?.parsed[0]?.tags?.Date?.value ||
-                selectedGame()?.parsed[0]?.tags?.Date ||
-                'Unknown'}
+              <strong>Tags:</strong> {selectedGame()?.labels?.join(', ')}
             </p>
+          </Show>
+          {isCustomStartingPosition(selectedGame()?.parsed) && (
             <p>
-              <strong>Winner:</strong>{' '}
-              {selectedGame()?.parsed[0]?.tags?.Result === '1-0'
-                ? 'White'
-                : selectedGame()?.parsed[0]?.tags?.Result === '0-1'
-                  ? 'Black'
-                  : selectedGame()?.parsed[0]?.tags?.Result === '1/2-1/2'
-                    ? 'Draw'
-                    : 'Unknown'}
+              <strong>Start:</strong> Custom position{' '}
+              <span class="game-info-fen">{getStartingFen(selectedGame()?.parsed)}</span>
             </p>
-          </div>
-        </div>
+          )}
+        </Overlay>
       )}
+      <Show when={showBrowser()}>
+        <GameBrowser
+          games={gameList()}
+          selected={selectedGame()}
+          onSelect={handleBrowserSelect}
+          onClose={() => setShowBrowser(false)}
+        />
+      </Show>
+      <Show when={showExport()}>
+        <ExportDialog
+          moveLabels={line().moves.map((_, i) => getMoveLabel(line().moves, i))}
+          initialIndex={moveIndex()}
+          progress={exportProgress()}
+          onExport={handleExport}
+          onCancel={() => exportAbort?.abort()}
+          onClose={() => setShowExport(false)}
+        />
+      </Show>
+      <Show when={showSnapshot()}>
+        <SnapshotDialog
+          onSavePicture={handleSavePicture}
+          onSaveDiagram={handleSaveDiagram}
+          onClose={() => setShowSnapshot(false)}
+        />
+      </Show>
+      <Show when={showPieceSet()}>
+        <PieceSetDialog
+          hasUploadedPieces={uploadedPieces() !== null}
+          onApply={setUploadedPieces}
+          onReset={() => setUploadedPieces(null)}
+          onClose={() => setShowPieceSet(false)}
+        />
+      </Show>
+      <Show when={importCheck()}>
+        {(check) => (
+          <ImportDialog
+            check={check()}
+            onLoadLegal={handleLoadLegalPrefix}
+            onClose={() => setImportCheck(null)}
+          />
+        )}
+      </Show>
       {showAbout() && (
-        <div class="about-overlay" onClick={() => setShowAbout(false)}>
-          <div class="about-dialog" onClick={(e) => e.stopPropagation()}>
-            <h1 class="about-title">ABOUT FAMOUS GAMES 3D</h1>
-            <p class="about-content">
-              Play back famous chess games from history, or upload your own{' '}
-              <a href="https://en.wikipedia.org/wiki/Portable_Game_Notation">PGN</a> files to
-              visualize them in 3D! (Desktop only) Pieces modeled in{' '}
-              <a href="https://cad.onshape.com/documents/1ac43c0042a8a0544e84feed/w/276b025152b1f726b298cef5/e/c3193025dfaf1a651f190a93">
-                Onshape.
-              </a>{' '}
-              Gameplay in <a href="https://www.solidjs.com/">SolidJS</a>,{' '}
-              <a href="https://threejs.org/">ThreeJS</a>, and{' '}
-              <a href="https://www.npmjs.com/package/chess.js">chess.js.</a> PGN-parsing with{' '}
-              <a href="https://www.npmjs.com/package/@mliebelt/pgn-parser">@mliebelt/pgn-parser.</a>{' '}
-              Animation with <a href="https://www.npmjs.com/package/gsap">gsap.</a>
-            </p>
-            <p class="credits">Copyright Steven Mycynek 2026. MIT license</p>
-            <a href="https://github.com/smycynek/famousgames3d-v4" class="credits">
-              https://github.com/smycynek/famousgames3d-v4
-            </a>
-
-            <div class="playback-controls">
-              <button class="ok" onClick={() => setShowAbout(false)}>
-                OK
-              </button>
-            </div>
+        <Overlay class="about-dialog" label="About" onClose={() => setShowAbout(false)}>
+          <h1 class="about-title">ABOUT FAMOUS GAMES 3D</h1>
+          <p class="about-content">
+            Play back famous chess games from history, or upload your own{' '}
+            <a href="https://en.wikipedia.org/wiki/Portable_Game_Notation">PGN</a> files to
+            visualize them in 3D! (Desktop only) Pieces modeled in{' '}
+            <a href="https://cad.onshape.com/documents/1ac43c0042a8a0544e84feed/w/276b025152b1f726b298cef5/e/c3193025dfaf1a651f190a93">
+              Onshape.
+            </a>{' '}
+            Gameplay in <a href="https://www.solidjs.com/">SolidJS</a>,{' '}
+            <a href="https://threejs.org/">ThreeJS</a>, and{' '}
+            <a href="https://www.npmjs.com/package/chess.js">chess.js.</a> PGN-parsing with{' '}
+            <a href="https://www.npmjs.com/package/@mliebelt/pgn-parser">@mliebelt/pgn-parser.</a>{' '}
+            Animation with <a href="https://www.npmjs.com/package/gsap">gsap.</a>
+          </p>
+          <p class="credits">Copyright Steven Mycynek 2026. MIT license</p>
+          <a href="https://github.com/smycynek/famousgames3d-v4" class="credits">
+            https://github.com/smycynek/famousgames3d-v4
+          </a>
+
+          <h2 class="shortcuts-title">Keyboard</h2>
+          <dl class="shortcuts">
+            <For each={SHORTCUT_HELP}>
+              {([keys, action]) => (
+                <>
+                  <dt>{keys}</dt>
+                  <dd>{action}</dd>
+                </>
+              )}
+            </For>
+          </dl>
+
+          <div class="playback-controls">
+            <button class="ok" onClick={() => setShowAbout(false)}>
+              OK
+            </button>
           </div>
-        </div>
+        </Overlay>
       )}
     </div>
   );
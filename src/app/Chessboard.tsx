@@ -1,52 +1,118 @@
-import { onMount, onCleanup, createSignal, createEffect } from 'solid-js';
+import { onMount, onCleanup, createSignal, createEffect, untrack, For, Show } from 'solid-js';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
-import { Chess, type Square } from 'chess.js';
+import { Chess, type Move, type Square } from 'chess.js';
 import gsap from 'gsap';
 import type { ParsedGame } from '../assets/games';
-import { buildLights } from './lighting';
+import { sharesPrefix, type MoveLine, type PgnMove } from './moveTree';
+import Overlay from './Overlay';
+import { applyLightRig, buildLights } from './lighting';
 import {
-  WHITE_PIECE_COLOR,
-  BLACK_PIECE_COLOR,
   loadTextures,
   type LoadedTextures,
-  SCENE_BACKGROUND_COLOR,
-  SCENE_BACKGROUND_COLOR_2,
+  applySurfaceStyle,
   createGradientBackground,
+  paintGradientBackground,
   materialsToDispose,
   texturesToDispose,
 } from './materials';
+import { DEFAULT_THEME, THEMES, type ThemeName } from './themes';
 import { SQUARE_SIZE, SQUARE_HEIGHT, type SceneBuilderParams } from './scene/sceneBuilder';
 import { buildBoardBase } from './scene/boardBase';
-import { buildSquares, buildMolding, buildLabels } from './scene/board';
+import {
+  buildSquares,
+  buildMolding,
+  buildLabels,
+  isLightSquare,
+  type SquareMeshes,
+} from './scene/board';
+import { applySquareHighlights, clearSquareHighlights } from './scene/highlights';
+import {
+  addMarks,
+  getLegalTargets,
+  getSelectionHighlights,
+  parseColorFields,
+} from './highlightUtils';
+import { buildArrows, type ArrowLayer } from './scene/arrows';
+import {
+  getPreviewArrow,
+  getThreatArrows,
+  getUciArrow,
+  parseColorArrows,
+  type BoardArrow,
+} from './arrowUtils';
 import { buildTable, buildPedestal } from './scene/table';
 import { buildFloorMat } from './scene/floorMat';
 import { buildFloor } from './scene/floor';
 import { buildWater } from './scene/water';
 import { buildChairs, loadChairModel } from './scene/chairs';
-import { loadPieceModels } from './scene/pieces';
+import { disposeModel, loadPieceModels, type PieceSetSource } from './scene/pieces';
 import { loadCrownModel } from './scene/crown';
 import {
   ANIMATION_DURATION,
+  CAPTURE_START_DELAY,
+  CAPTURE_RISE_DURATION,
+  CAPTURE_TRAVEL_DURATION,
+  CAPTURE_DROP_DURATION,
+  PROMOTION_FLASH_DURATION,
   KNIGHT_HOP_HEIGHT,
-  PIECE_SCALES,
+  DRAG_LIFT_HEIGHT,
   PIECE_TYPE_MAP,
+  PROMOTION_ORDER,
   type PieceType,
   type PieceModels,
   type PieceInfo,
   createPieceInstance,
   placePiece,
   toSquareName,
+  toSquareAt,
   fromSquareName,
 } from './pieceUtils';
-import { getGraveyardPosition } from './graveyardUtils';
-import { clearCrowns, scheduleCrowns } from './scene/crown';
+import { getGraveyardPosition, getMissingMaterial, type CapturedPiece } from './graveyardUtils';
+import { createStartingChess } from './positionUtils';
+import { clearCrowns, scheduleCrowns, type CrownTimer } from './scene/crown';
+import {
+  animateCameraToView,
+  CAMERA_VIEWS,
+  getCameraPose,
+  placeCamera,
+  type CameraPose,
+  type CameraViewName,
+} from './cameraViews';
+import type { BoardCapture } from './videoExport';
+import { renderSnapshot } from './snapshot';
 
 interface ChessboardProps {
   game?: ParsedGame | null;
+  line?: MoveLine | null;
   moveIndex?: number;
+  instant?: boolean;
+  speed?: number;
+  cameraView?: CameraViewName;
+  theme?: ThemeName;
+  // Uploaded models that replace the theme's piece set, piece by piece. The board takes them
+  // over and disposes of them once they are replaced.
+  pieces?: Partial<PieceModels> | null;
+  // Where the camera starts, e.g. from a shared link; otherwise it starts at the camera view
+  initialCameraPose?: CameraPose | null;
+  // Called as the user orbits the camera away from the preset view
+  onCameraPoseChange?: (pose: CameraPose) => void;
+  showNextMove?: boolean;
+  showThreats?: boolean;
+  // When set, pieces of the side to move can be clicked or dragged to play a move
+  interactive?: boolean;
+  onUserMove?: (move: Move) => void;
+  // Called when the piece picker for a promotion opens or closes
+  onPromotionPending?: (pending: boolean) => void;
+  // Engine suggestion for the position on the board, in UCI notation
+  bestMove?: string | null;
+  onPositionChange?: (fen: string) => void;
   onLoaded?: () => void;
+  // Share of the textures and models loaded so far, from 0 to 1
+  onLoadProgress?: (fraction: number) => void;
+  // Hands over the board for recording clips once the scene is set up
+  onCaptureReady?: (capture: BoardCapture) => void;
 }
 
 function Chessboard(props: ChessboardProps) {
@@ -57,12 +123,40 @@ function Chessboard(props: ChessboardProps) {
   // Track pieces by square name (e.g., "e4")
   const piecesBySquare = new Map<string, PieceInfo>();
   let lastMoveIndex = -2; // Track last processed move index
+  let lastMoves: PgnMove[] = []; // Line the last processed move index refers to
+  // Game whose starting position is on the board. Compared by its move tree, so renaming or
+  // tagging a game (which copies it) leaves the board alone.
+  let lastGame: ParsedGame | null = null;
   let currentChess: Chess | null = null;
+  let squareMeshes: SquareMeshes | null = null;
+  let arrowLayer: ArrowLayer | null = null;
+  // Piece picked up by the user in interactive mode, and where it can go
+  let selectedSquare: Square | null = null;
+  let legalTargets: Square[] = [];
+  // A pawn move to the last rank waiting for the user to pick its piece
+  const [promotionChoice, setPromotionChoice] = createSignal<{
+    moves: Move[];
+    cancel: () => void;
+  } | null>(null);
   const [pieceModels, setPieceModels] = createSignal<PieceModels | null>(null);
+  // Piece sets by folder, each loaded the first time a theme asks for it
+  const pieceSets = new Map<string, Promise<PieceModels>>();
+  let pieceSet: string | null = null; // Folder of the theme's models
+  let themeModels: PieceModels | null = null;
+  let uploadedModels: Partial<PieceModels> | null = null;
   let crownModel: THREE.Group | null = null;
   let chairModel: THREE.Group | null = null;
+  let chairMaterials: ReturnType<typeof buildChairs> | null = null;
   const crownMeshes: THREE.Group[] = [];
-  const crownTimeout: { current: ReturnType<typeof setTimeout> | null } = { current: null };
+  const crownTimeout: CrownTimer = { current: null };
+  let pendingPromotion: gsap.core.Tween | null = null;
+  let playbackSpeed = 1;
+
+  // Piece animations run faster or slower with the playback speed
+  const scaled = (seconds: number) => seconds / playbackSpeed;
+  createEffect(() => {
+    playbackSpeed = props.speed ?? 1;
+  });
 
   onMount(() => {
     if (!containerRef) return;
@@ -70,14 +164,25 @@ function Chessboard(props: ChessboardProps) {
     // Scene setup
     const scene = new THREE.Scene();
 
+    // One manager for every texture and model, so loading is tracked as a whole
+    const loadingManager = new THREE.LoadingManager();
+    const handleLoadProgress = (_url: string, loaded: number, total: number) =>
+      props.onLoadProgress?.(loaded / total);
+    loadingManager.onProgress = handleLoadProgress;
+    loadingManager.onError = (url) => console.error(`Failed to load ${url}`);
+
     // Load all textures
-    loadedTextures = loadTextures();
+    loadedTextures = loadTextures(loadingManager);
+    let theme = THEMES[props.theme ?? DEFAULT_THEME];
     // Track captured pieces
     const capturedWhitePieces: THREE.Group[] = [];
     const capturedBlackPieces: THREE.Group[] = [];
 
     // Clear all pieces from the board
     const clearAllPieces = () => {
+      // A promotion still waiting for its pawn would otherwise land on the rebuilt board
+      pendingPromotion?.kill();
+      pendingPromotion = null;
       piecesBySquare.forEach((info) => {
         scene.remove(info.mesh);
       });
@@ -96,13 +201,12 @@ function Chessboard(props: ChessboardProps) {
       row: number,
       isBlack: boolean
     ): PieceInfo => {
-      const texture = isBlack ? loadedTextures?.darkWood : loadedTextures?.lightWood;
-      const color = isBlack ? BLACK_PIECE_COLOR : WHITE_PIECE_COLOR;
-      const piece = createPieceInstance(pm[pieceType], color, PIECE_SCALES[pieceType], texture);
+      const style = isBlack ? theme.pieces.black : theme.pieces.white;
+      const piece = createPieceInstance(pm[pieceType], style, loadedTextures!);
       placePiece(piece, col, row, scene, isBlack);
-      // Rotate knights on Z axis
+      // Turn knights to look across the board
       if (pieceType === 'knight') {
-        piece.rotation.z += isBlack ? Math.PI / 4 + Math.PI : -Math.PI / 4;
+        piece.rotation.y += isBlack ? Math.PI / 4 + Math.PI : -Math.PI / 4;
       }
       return { mesh: piece, type: pieceType, isBlack };
     };
@@ -117,18 +221,13 @@ function Chessboard(props: ChessboardProps) {
       const captureIndex = capturedList.length;
       const { x, y, z } = getGraveyardPosition(isBlack, captureIndex);
 
-      const texture = isBlack ? loadedTextures?.darkWood : loadedTextures?.lightWood;
-      const color = isBlack ? BLACK_PIECE_COLOR : WHITE_PIECE_COLOR;
-      const piece = createPieceInstance(pm[pieceType], color, PIECE_SCALES[pieceType], texture);
+      const style = isBlack ? theme.pieces.black : theme.pieces.white;
+      const piece = createPieceInstance(pm[pieceType], style, loadedTextures!);
 
       piece.position.set(x, y, z);
-      piece.rotation.z = Math.PI / 2;
-      piece.rotation.x = isBlack ? Math.PI / 2 : Math.PI / 2 + Math.PI;
-      if (isBlack) {
-        piece.rotation.y = Math.PI;
-      }
+      piece.rotation.y = isBlack ? Math.PI : 0;
       if (pieceType === 'knight') {
-        piece.rotation.z += isBlack ? Math.PI / 4 + Math.PI : -Math.PI / 4;
+        piece.rotation.y += isBlack ? Math.PI / 4 + Math.PI : -Math.PI / 4;
       }
 
       scene.add(piece);
@@ -142,37 +241,38 @@ function Chessboard(props: ChessboardProps) {
       _fromRow: number,
       toCol: number,
       toRow: number,
-      isKnight: boolean
+      isKnight: boolean,
+      reverse: boolean = false
     ) => {
       const endX = toCol * SQUARE_SIZE;
       const endZ = toRow * SQUARE_SIZE;
       const baseY = SQUARE_HEIGHT / 2;
 
-      // Rotate 30 degrees on vertical axis during move
-      const rotationDelta = (15 * Math.PI) / 180;
+      // Rotate 30 degrees on vertical axis during move (unwound again when the move is undone)
+      const rotationDelta = ((reverse ? -15 : 15) * Math.PI) / 180;
       gsap.to(piece.rotation, {
-        duration: 0.5,
-        delay: ANIMATION_DURATION - 0.5,
-        z: piece.rotation.z + rotationDelta,
+        duration: scaled(0.5),
+        delay: scaled(ANIMATION_DURATION - 0.5),
+        y: piece.rotation.y + rotationDelta,
         ease: 'power2.inOut',
       });
 
       if (isKnight) {
         // Knight hops in an arc
         gsap.to(piece.position, {
-          duration: ANIMATION_DURATION,
+          duration: scaled(ANIMATION_DURATION),
           x: endX,
           z: endZ,
           ease: 'power2.inOut',
         });
         // Separate Y animation for the hop
         gsap.to(piece.position, {
-          duration: ANIMATION_DURATION / 2,
+          duration: scaled(ANIMATION_DURATION / 2),
           y: baseY + KNIGHT_HOP_HEIGHT,
           ease: 'power2.out',
           onComplete: () => {
             gsap.to(piece.position, {
-              duration: ANIMATION_DURATION / 2,
+              duration: scaled(ANIMATION_DURATION / 2),
               y: baseY,
               ease: 'power2.in',
             });
@@ -181,7 +281,7 @@ function Chessboard(props: ChessboardProps) {
       } else {
         // Regular pieces slide linearly
         gsap.to(piece.position, {
-          duration: ANIMATION_DURATION,
+          duration: scaled(ANIMATION_DURATION),
           x: endX,
           z: endZ,
           ease: 'power2.inOut',
@@ -201,26 +301,49 @@ function Chessboard(props: ChessboardProps) {
 
       // Raise up quickly and high to avoid collision, move to side, then lower
       gsap.to(info.mesh.position, {
-        duration: ANIMATION_DURATION * 0.4,
-        delay: delay,
+        duration: scaled(CAPTURE_RISE_DURATION),
+        delay: scaled(delay),
         y: info.mesh.position.y + SQUARE_SIZE * 2.1,
         ease: 'power2.out',
       });
       gsap.to(info.mesh.position, {
-        duration: ANIMATION_DURATION * 0.9,
-        delay: delay + ANIMATION_DURATION * 0.4,
+        duration: scaled(CAPTURE_TRAVEL_DURATION),
+        delay: scaled(delay + CAPTURE_RISE_DURATION),
         x: targetX,
         z: targetZ,
         ease: 'power2.inOut',
       });
       gsap.to(info.mesh.position, {
-        duration: ANIMATION_DURATION * 0.5,
-        delay: delay + ANIMATION_DURATION * 1.3,
+        duration: scaled(CAPTURE_DROP_DURATION),
+        delay: scaled(delay + CAPTURE_RISE_DURATION + CAPTURE_TRAVEL_DURATION),
         y: targetY,
         ease: 'power2.in',
       });
     };
 
+    // Animate a captured piece out of the graveyard back onto its square (undoing a capture)
+    const animateCaptureReturn = (mesh: THREE.Group, toCol: number, toRow: number) => {
+      const liftY = SQUARE_HEIGHT / 2 + SQUARE_SIZE * 2.1;
+      gsap.to(mesh.position, {
+        duration: scaled(CAPTURE_RISE_DURATION),
+        y: liftY,
+        ease: 'power2.out',
+      });
+      gsap.to(mesh.position, {
+        duration: scaled(CAPTURE_TRAVEL_DURATION),
+        delay: scaled(CAPTURE_RISE_DURATION),
+        x: toCol * SQUARE_SIZE,
+        z: toRow * SQUARE_SIZE,
+        ease: 'power2.inOut',
+      });
+      gsap.to(mesh.position, {
+        duration: scaled(CAPTURE_DROP_DURATION),
+        delay: scaled(CAPTURE_RISE_DURATION + CAPTURE_TRAVEL_DURATION),
+        y: SQUARE_HEIGHT / 2,
+        ease: 'power2.in',
+      });
+    };
+
     // Remove a piece with optional animation and delay - moves captured pieces to the side
     const removePiece = (squareName: string, animate: boolean = false, delay: number = 0) => {
       const info = piecesBySquare.get(squareName);
@@ -244,7 +367,8 @@ function Chessboard(props: ChessboardProps) {
       promotedType: PieceType,
       isBlack: boolean
     ) => {
-      setTimeout(() => {
+      pendingPromotion = gsap.delayedCall(scaled(ANIMATION_DURATION), () => {
+        pendingPromotion = null;
         removePiece(toSquare, false);
         const newPieceInfo = createPiece(pm, promotedType, toCol, toRow, isBlack);
         piecesBySquare.set(toSquare, newPieceInfo);
@@ -261,7 +385,7 @@ function Chessboard(props: ChessboardProps) {
         });
         const brightnessProxy = { value: 0.5 };
         gsap.to(brightnessProxy, {
-          duration: 0.5,
+          duration: scaled(PROMOTION_FLASH_DURATION),
           value: 0,
           ease: 'power2.out',
           onUpdate: () => {
@@ -270,15 +394,11 @@ function Chessboard(props: ChessboardProps) {
             });
           },
         });
-      }, ANIMATION_DURATION * 1000);
+      });
     };
 
     // Set up the board from a chess position (no animation - used for initial setup)
-    const setupBoardFromChess = (
-      chess: Chess,
-      pm: PieceModels,
-      captures?: { type: string; color: 'w' | 'b' }[]
-    ) => {
+    const setupBoardFromChess = (chess: Chess, pm: PieceModels, captures?: CapturedPiece[]) => {
       clearAllPieces();
       const board = chess.board();
       for (let rank = 0; rank < 8; rank++) {
@@ -323,7 +443,7 @@ function Chessboard(props: ChessboardProps) {
 
       // Handle capture - remove the captured piece immediately so it clears the square
       if (move.captured) {
-        const captureDelay = ANIMATION_DURATION * 0.6;
+        const captureDelay = CAPTURE_START_DELAY;
         // For en passant, the captured pawn is on a different square
         if (move.flags.includes('e')) {
           const capturedSquare = `${toSquare[0]}${fromSquare[1]}`;
@@ -368,81 +488,265 @@ function Chessboard(props: ChessboardProps) {
       currentChess = chess;
     };
 
-    const loadAllModels = async () => {
-      // Load chess piece models
-      const loader = new GLTFLoader();
-      const pieceModelBasePath = import.meta.env.BASE_URL + 'pieces/';
-      const otherModelBasePath = import.meta.env.BASE_URL + 'other/';
-      const pieceModels = await loadPieceModels(loader, pieceModelBasePath);
+    // Undo the last move of the position with animation, derived from chess.js undo()
+    const undoMoveAnimated = (chess: Chess, pm: PieceModels) => {
+      const move = chess.undo();
+      if (!move) return;
 
-      // Load crown model
-      crownModel = await loadCrownModel(loader, otherModelBasePath);
+      const fromSquare = move.from as Square;
+      const toSquare = move.to as Square;
+      const { col: fromCol, row: fromRow } = fromSquareName(fromSquare);
+      const { col: toCol, row: toRow } = fromSquareName(toSquare);
+      const isBlack = move.color === 'b';
 
-      // Load chair model and place chairs
-      try {
-        const chairGltf = await loadChairModel(loader, otherModelBasePath);
-        if (!chairGltf) {
-          throw new Error('Chair model failed to load');
+      // A promotion that hasn't landed yet leaves the pawn on the board
+      pendingPromotion?.kill();
+      pendingPromotion = null;
+
+      let pieceInfo = piecesBySquare.get(toSquare);
+      if (pieceInfo) {
+        gsap.killTweensOf(pieceInfo.mesh.position);
+        gsap.killTweensOf(pieceInfo.mesh.rotation);
+        // Promoted pieces turn back into pawns before retreating
+        if (move.promotion && pieceInfo.type !== 'pawn') {
+          scene.remove(pieceInfo.mesh);
+          pieceInfo = createPiece(pm, 'pawn', toCol, toRow, isBlack);
         }
+        piecesBySquare.delete(toSquare);
+        piecesBySquare.set(fromSquare, pieceInfo);
+        animatePieceMove(
+          pieceInfo.mesh,
+          toCol,
+          toRow,
+          fromCol,
+          fromRow,
+          pieceInfo.type === 'knight',
+          true
+        );
+      }
+
+      // Castling - the rook returns to its corner
+      if (move.flags.includes('k') || move.flags.includes('q')) {
+        const isKingside = move.flags.includes('k');
+        const rookFromFile = isKingside ? 7 : 0;
+        const rookToFile = isKingside ? 5 : 3;
+        const rookRank = move.color === 'w' ? 7 : 0;
+        const rookFromSquare = toSquareName(rookFromFile, rookRank);
+        const rookToSquare = toSquareName(rookToFile, rookRank);
+
+        const rookInfo = piecesBySquare.get(rookToSquare);
+        if (rookInfo) {
+          gsap.killTweensOf(rookInfo.mesh.position);
+          piecesBySquare.delete(rookToSquare);
+          piecesBySquare.set(rookFromSquare, rookInfo);
+          animatePieceMove(
+            rookInfo.mesh,
+            rookToFile,
+            rookRank,
+            rookFromFile,
+            rookRank,
+            false,
+            true
+          );
+        }
+      }
+
+      // Captures - the most recent piece of that color flies out of the graveyard
+      if (move.captured) {
+        const capturedIsBlack = !isBlack;
+        const capturedList = capturedIsBlack ? capturedBlackPieces : capturedWhitePieces;
+        const mesh = capturedList.pop();
+        // For en passant, the captured pawn returns beside the destination square
+        const capturedSquare = move.flags.includes('e')
+          ? `${toSquare[0]}${fromSquare[1]}`
+          : toSquare;
+        if (mesh) {
+          gsap.killTweensOf(mesh.position);
+          const { col, row } = fromSquareName(capturedSquare);
+          piecesBySquare.set(capturedSquare, {
+            mesh,
+            type: PIECE_TYPE_MAP[move.captured],
+            isBlack: capturedIsBlack,
+          });
+          animateCaptureReturn(mesh, col, row);
+        }
+      }
+
+      currentChess = chess;
+    };
+
+    const loader = new GLTFLoader(loadingManager);
+    const loadPieceSet = (set: PieceSetSource) => {
+      let models = pieceSets.get(set.folder);
+      if (!models) {
+        models = loadPieceModels(loader, import.meta.env.BASE_URL + set.folder, set.turn);
+        pieceSets.set(set.folder, models);
+      }
+      return models;
+    };
+
+    // Models on the board: the uploaded ones where there are any, the theme's for the rest
+    const getBoardModels = (): PieceModels => ({ ...themeModels!, ...uploadedModels });
+
+    // Swap in other models; the board effect then rebuilds the position with them
+    const refreshPieceModels = () => {
+      // Still loading; the board is set up with the latest models once they are in
+      if (!pieceModels()) return;
+      lastMoveIndex = -2;
+      lastGame = null;
+      setPieceModels(getBoardModels());
+    };
+
+    const usePieceSet = async (set: PieceSetSource) => {
+      if (set.folder === pieceSet) return;
+      pieceSet = set.folder;
+      const models = await loadPieceSet(set);
+      // Another theme may have been picked in the meantime
+      if (set.folder !== pieceSet) return;
+      themeModels = models;
+      refreshPieceModels();
+    };
+
+    // Pieces, crown and chair load side by side; the scene does without a crown or chairs
+    const loadAllModels = async () => {
+      const otherModelBasePath = import.meta.env.BASE_URL + 'other/';
+      pieceSet = theme.pieceSet.folder;
+      const [, crown, chairGltf] = await Promise.all([
+        loadPieceSet(theme.pieceSet),
+        loadCrownModel(loader, otherModelBasePath),
+        loadChairModel(loader, otherModelBasePath),
+      ]);
+      crownModel = crown;
+      if (chairGltf) {
         chairModel = chairGltf.scene;
-        buildChairs(builderParams, chairModel);
-      } catch (error) {
-        console.error('Failed to load chair:', error);
+        chairMaterials = buildChairs(builderParams, chairModel);
       }
 
-      setPieceModels(pieceModels as PieceModels);
-      console.log('All chess pieces loaded');
-      props.onLoaded?.();
+      // Another theme may have been picked while loading; its set is cached or loads now
+      themeModels = await loadPieceSet(theme.pieceSet);
+      const pieceModels = getBoardModels();
 
-      // Set up the starting position
+      // Set up the starting position before the board effect sees the models
       const chess = new Chess();
-      setupBoardFromChess(chess, pieceModels as PieceModels);
+      setupBoardFromChess(chess, pieceModels);
       lastMoveIndex = -1;
+
+      setPieceModels(pieceModels);
+      console.log('All chess pieces loaded');
+      props.onLoaded?.();
+    };
+
+    // Mark the last move, any check, the user's picked piece and the PGN's colored squares
+    const refreshHighlights = () => {
+      if (!squareMeshes || !currentChess) return;
+      const marks = parseColorFields(lastMoves[lastMoveIndex]?.commentDiag?.colorFields);
+      applySquareHighlights(
+        squareMeshes,
+        addMarks(getSelectionHighlights(currentChess, selectedSquare), marks)
+      );
+    };
+
+    const selectSquare = (square: Square | null) => {
+      selectedSquare = square;
+      legalTargets = square && currentChess ? getLegalTargets(currentChess, square) : [];
+      refreshHighlights();
+    };
+
+    // Redraw the overlay arrows for the position on the board
+    const refreshArrows = () => {
+      if (!arrowLayer) return;
+      const arrows: BoardArrow[] = parseColorArrows(
+        lastMoves[lastMoveIndex]?.commentDiag?.colorArrows
+      );
+      if (currentChess && props.showNextMove) {
+        const preview = getPreviewArrow(
+          currentChess,
+          lastMoves[lastMoveIndex + 1]?.notation?.notation
+        );
+        if (preview) arrows.push(preview);
+      }
+      if (currentChess && props.showThreats) {
+        arrows.push(...getThreatArrows(currentChess));
+      }
+      const best = getUciArrow(props.bestMove, 'best');
+      if (best) arrows.push(best);
+      arrowLayer.setArrows(arrows);
     };
 
     // Watch for game/moveIndex changes and update board
     createEffect(() => {
       const pm = pieceModels();
       const game = props.game;
+      const line = props.line;
       const moveIndex = props.moveIndex ?? -1;
+      const instant = props.instant ?? false;
 
       if (!pm) return;
 
+      // Nothing to do if the board already shows this position (e.g. only the line object changed)
+      if (
+        game &&
+        line &&
+        game.parsed === lastGame?.parsed &&
+        moveIndex === lastMoveIndex &&
+        sharesPrefix(lastMoves, line.moves, moveIndex + 1)
+      ) {
+        lastMoves = line.moves;
+        return;
+      }
+
+      // A promotion picked for the old position can't be played in the new one
+      untrack(() => choosePromotion(null));
+
       // Remove any existing crowns and cancel pending crown placement
       clearCrowns(scene, crownMeshes, crownTimeout);
 
       // If no game selected, show starting position
-      if (!game) {
-        if (lastMoveIndex !== -1) {
+      if (!game || !line) {
+        if (lastMoveIndex !== -1 || lastGame) {
           const chess = new Chess();
           setupBoardFromChess(chess, pm);
           lastMoveIndex = -1;
         }
+        selectedSquare = null;
+        legalTargets = [];
+        if (squareMeshes) clearSquareHighlights(squareMeshes);
+        lastMoves = [];
+        lastGame = null;
+        untrack(refreshArrows);
+        props.onPositionChange?.(new Chess().fen());
         return;
       }
 
-      // Get the moves from the parsed game
-      const parsedGame = game.parsed[0];
-      if (!parsedGame?.moves) return;
-
-      const moves = parsedGame.moves;
+      // Get the moves of the line being followed (main line or a variation)
+      const moves = line.moves;
 
       // Determine if we're moving forward or backward
-      if (moveIndex === lastMoveIndex) {
-        return; // No change
-      }
-
-      if (moveIndex > lastMoveIndex && moveIndex - lastMoveIndex === 1) {
-        // Moving forward by one - animate the move
+      const continuesLine = !instant && game.parsed === lastGame?.parsed;
+      if (
+        continuesLine &&
+        moveIndex - lastMoveIndex === 1 &&
+        sharesPrefix(lastMoves, moves, moveIndex)
+      ) {
+        // Moving forward by one along the same line (or into a variation) - animate the move
         const move = moves[moveIndex];
         if (move?.notation?.notation && currentChess) {
-          const chessCopy = new Chess(currentChess.fen());
-          applyMoveAnimated(chessCopy, pm, move.notation.notation);
+          applyMoveAnimated(currentChess, pm, move.notation.notation);
         }
+      } else if (
+        continuesLine &&
+        lastMoveIndex - moveIndex === 1 &&
+        sharesPrefix(lastMoves, moves, moveIndex + 1) &&
+        currentChess &&
+        currentChess.history().length > 0
+      ) {
+        // Stepping back by one - animate the move in reverse
+        undoMoveAnimated(currentChess, pm);
       } else {
-        // Moving backward or jumping multiple moves - rebuild the board
-        const chess = new Chess();
-        const captures: { type: string; color: 'w' | 'b' }[] = [];
+        // Jumping to a move or switching lines - rebuild the board
+        // from the game's starting position, which may be a FEN setup with material missing
+        const chess = createStartingChess(game.parsed);
+        const captures: CapturedPiece[] = getMissingMaterial(chess);
         for (let i = 0; i <= moveIndex && i < moves.length; i++) {
           const move = moves[i];
           if (move.notation?.notation) {
@@ -464,26 +768,39 @@ function Chessboard(props: ChessboardProps) {
         setupBoardFromChess(chess, pm, captures);
       }
 
-      // Place crown(s) on winner's chair at the last move
-      if (crownModel && moveIndex === moves.length - 1) {
-        const result = parsedGame?.tags?.Result;
-        scheduleCrowns(scene, crownModel, crownMeshes, crownTimeout, result);
+      // Place crown(s) on winner's chair at the last move of the main line
+      if (crownModel && !line.parent && moveIndex === moves.length - 1) {
+        const result = game.parsed.tags?.Result;
+        scheduleCrowns(scene, crownModel, crownMeshes, crownTimeout, result, playbackSpeed);
       }
 
       lastMoveIndex = moveIndex;
+      lastMoves = moves;
+      lastGame = game;
+
+      // Mark the last move and any check for whichever path brought the board here
+      selectedSquare = null;
+      legalTargets = [];
+      refreshHighlights();
+      untrack(refreshArrows);
+      if (currentChess) props.onPositionChange?.(currentChess.fen());
+    });
+
+    // Redraw when an overlay is switched on or off or the engine suggestion changes;
+    // position changes redraw from the board effect
+    createEffect(() => {
+      if (pieceModels()) refreshArrows();
     });
 
     // Build scene elements
     const builderParams: SceneBuilderParams = {
       scene,
       loadedTextures: loadedTextures!,
+      theme,
     };
 
     loadAllModels();
-    const gradientBackground = createGradientBackground(
-      SCENE_BACKGROUND_COLOR,
-      SCENE_BACKGROUND_COLOR_2
-    );
+    const gradientBackground = createGradientBackground(...theme.background);
     scene.background = gradientBackground;
 
     // Camera setup
@@ -507,7 +824,7 @@ function Chessboard(props: ChessboardProps) {
     renderer.shadowMap.type = THREE.PCFSoftShadowMap;
     renderer.localClippingEnabled = true;
     renderer.toneMapping = THREE.ACESFilmicToneMapping;
-    renderer.toneMappingExposure = 1.2;
+    renderer.toneMappingExposure = theme.lighting.exposure;
     containerRef.appendChild(renderer.domElement);
 
     // Orbit controls for pan, zoom, and orbit
@@ -520,8 +837,161 @@ function Chessboard(props: ChessboardProps) {
     controls.maxPolarAngle = Math.PI / 2 - 0.2;
     controls.update();
 
+    // Preset views are scaled from the starting distance, which depends on the screen
+    const baseDistance = camera.position.distanceTo(controls.target);
+    let cameraTween: gsap.core.Tween | null = null;
+    let lastCameraView = props.cameraView ?? 'white';
+    const startPose =
+      props.initialCameraPose ?? (lastCameraView !== 'white' ? CAMERA_VIEWS[lastCameraView] : null);
+    if (startPose) {
+      placeCamera(camera, controls, startPose, baseDistance);
+      controls.update();
+    }
+
+    // Only poses the user orbits to are reported; preset views are known by name
+    let userOrbiting = false;
+    const handleControlsStart = () => {
+      userOrbiting = true;
+    };
+    const handleControlsChange = () => {
+      if (userOrbiting) {
+        props.onCameraPoseChange?.(getCameraPose(camera, controls.target, baseDistance));
+      }
+    };
+    controls.addEventListener('start', handleControlsStart);
+    controls.addEventListener('change', handleControlsChange);
+
+    createEffect(() => {
+      const view = props.cameraView ?? 'white';
+      if (view === lastCameraView) return;
+      lastCameraView = view;
+      userOrbiting = false;
+      cameraTween?.kill();
+      cameraTween = animateCameraToView(camera, controls, CAMERA_VIEWS[view], baseDistance);
+    });
+
+    // Interactive play: pick pieces by raycasting, move them by click or drag
+    const raycaster = new THREE.Raycaster();
+    const pointer = new THREE.Vector2();
+    const dragPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), -SQUARE_HEIGHT / 2);
+    const dragPoint = new THREE.Vector3();
+    let drag: { square: Square; mesh: THREE.Group; moved: boolean } | null = null;
+
+    const aimAt = (e: PointerEvent) => {
+      const rect = renderer!.domElement.getBoundingClientRect();
+      pointer.set(
+        ((e.clientX - rect.left) / rect.width) * 2 - 1,
+        -((e.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      raycaster.setFromCamera(pointer, camera);
+    };
+
+    // Square of the piece under the pointer, else the square under it on the board
+    const pickSquare = (): Square | null => {
+      const meshes = [...piecesBySquare.values()].map((info) => info.mesh);
+      const hit = raycaster.intersectObjects(meshes, true)[0];
+      if (hit) {
+        for (const [square, info] of piecesBySquare) {
+          let object: THREE.Object3D | null = hit.object;
+          while (object && object !== info.mesh) object = object.parent;
+          if (object) return square as Square;
+        }
+      }
+      if (!raycaster.ray.intersectPlane(dragPlane, dragPoint)) return null;
+      return toSquareAt(dragPoint.x, dragPoint.z) as Square | null;
+    };
+
+    // Hand a legal move to the parent, which appends it to the line and animates it. A pawn
+    // reaching the last rank waits for the user to pick what it becomes.
+    const playUserMove = (from: Square, to: Square) => {
+      const moves = (currentChess?.moves({ square: from, verbose: true }) ?? []).filter(
+        (m) => m.to === to
+      );
+      selectSquare(null);
+      if (moves.length > 1) {
+        const mesh = piecesBySquare.get(from)?.mesh;
+        setPromotionChoice({
+          moves: PROMOTION_ORDER.flatMap((piece) => moves.filter((m) => m.promotion === piece)),
+          cancel: () => mesh && returnPiece(mesh, from),
+        });
+        return;
+      }
+      if (moves[0]) props.onUserMove?.(moves[0]);
+    };
+
+    const returnPiece = (mesh: THREE.Group, square: Square) => {
+      const { col, row } = fromSquareName(square);
+      gsap.to(mesh.position, {
+        duration: 0.25,
+        x: col * SQUARE_SIZE,
+        y: SQUARE_HEIGHT / 2,
+        z: row * SQUARE_SIZE,
+        ease: 'power2.out',
+      });
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!props.interactive || !currentChess || e.button !== 0) return;
+      aimAt(e);
+      const square = pickSquare();
+      if (selectedSquare && square && legalTargets.includes(square)) {
+        playUserMove(selectedSquare, square);
+        return;
+      }
+      const piece = square ? currentChess.get(square) : undefined;
+      const info = square ? piecesBySquare.get(square) : undefined;
+      if (!square || !piece || piece.color !== currentChess.turn() || !info) {
+        selectSquare(null);
+        return;
+      }
+      selectSquare(square);
+      gsap.killTweensOf(info.mesh.position);
+      drag = { square, mesh: info.mesh, moved: false };
+      // Hold the camera still while the piece is carried
+      controls.enabled = false;
+      renderer!.domElement.setPointerCapture(e.pointerId);
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!drag) return;
+      aimAt(e);
+      if (!raycaster.ray.intersectPlane(dragPlane, dragPoint)) return;
+      drag.moved = true;
+      drag.mesh.position.set(dragPoint.x, SQUARE_HEIGHT / 2 + DRAG_LIFT_HEIGHT, dragPoint.z);
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!drag) return;
+      const { square, mesh, moved } = drag;
+      drag = null;
+      controls.enabled = true;
+      renderer!.domElement.releasePointerCapture(e.pointerId);
+      // A click without dragging keeps the piece selected for a second click
+      if (!moved) return;
+      aimAt(e);
+      const target = raycaster.ray.intersectPlane(dragPlane, dragPoint)
+        ? (toSquareAt(dragPoint.x, dragPoint.z) as Square | null)
+        : null;
+      if (target && legalTargets.includes(target)) {
+        mesh.position.y = SQUARE_HEIGHT / 2;
+        playUserMove(square, target);
+      } else {
+        returnPiece(mesh, square);
+      }
+    };
+
+    // Capture phase, so a pick wins over the orbit controls' own pointerdown
+    renderer.domElement.addEventListener('pointerdown', handlePointerDown, { capture: true });
+    renderer.domElement.addEventListener('pointermove', handlePointerMove);
+    renderer.domElement.addEventListener('pointerup', handlePointerUp);
+
+    // Drop any selection when play mode is switched off
+    createEffect(() => {
+      if (!props.interactive && selectedSquare) selectSquare(null);
+    });
+
     // Lighting
-    const lights = buildLights();
+    const lights = buildLights(theme.lighting);
     lights.forEach((light) => scene.add(light));
 
     const baseGeometry = buildBoardBase(builderParams);
@@ -530,10 +1000,44 @@ function Chessboard(props: ChessboardProps) {
     const floorMatGeometry = buildFloorMat(builderParams);
     const floorGeometry = buildFloor(builderParams);
     const waterGeometry = buildWater(builderParams);
-    const squareGeometry = buildSquares(builderParams);
+    const { geometry: squareGeometry, squares } = buildSquares(builderParams);
+    squareMeshes = squares;
+    arrowLayer = buildArrows(builderParams);
     const moldingGeometries = buildMolding(builderParams);
     const labelGeometry = buildLabels(builderParams);
 
+    // Restyle everything in place for a new theme; pieces are only rebuilt for another piece set
+    const restylePiece = (mesh: THREE.Group, isBlack: boolean) => {
+      const style = isBlack ? theme.pieces.black : theme.pieces.white;
+      const materials = new Set<THREE.MeshStandardMaterial>();
+      mesh.traverse((child) => {
+        if (child instanceof THREE.Mesh)
+          materials.add(child.material as THREE.MeshStandardMaterial);
+      });
+      materials.forEach((material) => applySurfaceStyle(material, style, loadedTextures!));
+    };
+    createEffect(() => {
+      const next = THEMES[props.theme ?? DEFAULT_THEME];
+      if (next === theme) return;
+      theme = next;
+      builderParams.theme = next;
+      piecesBySquare.forEach((info) => restylePiece(info.mesh, info.isBlack));
+      capturedWhitePieces.forEach((mesh) => restylePiece(mesh, false));
+      capturedBlackPieces.forEach((mesh) => restylePiece(mesh, true));
+      squares.forEach((square, name) => {
+        const style = isLightSquare(name) ? next.squares.light : next.squares.dark;
+        applySurfaceStyle(square.material, style, loadedTextures!);
+      });
+      if (chairMaterials) {
+        applySurfaceStyle(chairMaterials.white, next.chairs.white, loadedTextures!);
+        applySurfaceStyle(chairMaterials.black, next.chairs.black, loadedTextures!);
+      }
+      paintGradientBackground(gradientBackground, ...next.background);
+      applyLightRig(lights, next.lighting);
+      if (renderer) renderer.toneMappingExposure = next.lighting.exposure;
+      usePieceSet(next.pieceSet);
+    });
+
     // Handle window resize
     const handleResize = () => {
       if (!containerRef || !renderer) return;
@@ -551,26 +1055,55 @@ function Chessboard(props: ChessboardProps) {
     };
     animate();
 
-    // Cleanup
-    // Dispose geometries and original GLTF materials from a loaded model
-    const disposeModel = (model: THREE.Group) => {
-      model.traverse((child) => {
-        if (child instanceof THREE.Mesh) {
-          child.geometry.dispose();
-          if (Array.isArray(child.material)) {
-            child.material.forEach((m: THREE.Material) => m.dispose());
-          } else if (child.material) {
-            child.material.dispose();
-          }
-        }
-      });
-    };
+    // Recording: frames are drawn at the clip's size and camera, outside the live loop
+    let savedPose: CameraPose | null = null;
+    props.onCaptureReady?.({
+      canvas: renderer.domElement,
+      start: (width, height, view) => {
+        if (animationId) cancelAnimationFrame(animationId);
+        animationId = undefined;
+        cameraTween?.kill();
+        savedPose = getCameraPose(camera, controls.target, baseDistance);
+        if (view) placeCamera(camera, controls, CAMERA_VIEWS[view], baseDistance);
+        renderer?.setPixelRatio(1);
+        // The page keeps the canvas at its on-screen size; only the drawing buffer changes
+        renderer?.setSize(width, height, false);
+        camera.aspect = width / height;
+        camera.updateProjectionMatrix();
+      },
+      renderFrame: () => renderer?.render(scene, camera),
+      stop: () => {
+        if (savedPose) placeCamera(camera, controls, savedPose, baseDistance);
+        renderer?.setPixelRatio(window.devicePixelRatio);
+        handleResize();
+        animate();
+      },
+      snapshot: (options) => renderSnapshot(renderer!, scene, camera, options),
+    });
+
+    // Uploaded pieces; the pieces on the board are rebuilt before the old models are let go
+    createEffect(() => {
+      const uploaded = props.pieces ?? null;
+      if (uploaded === uploadedModels) return;
+      const previous = uploadedModels;
+      uploadedModels = uploaded;
+      refreshPieceModels();
+      if (previous) Object.values(previous).forEach(disposeModel);
+    });
 
+    // Cleanup
     onCleanup(() => {
       window.removeEventListener('resize', handleResize);
+      renderer?.domElement.removeEventListener('pointerdown', handlePointerDown, { capture: true });
+      renderer?.domElement.removeEventListener('pointermove', handlePointerMove);
+      renderer?.domElement.removeEventListener('pointerup', handlePointerUp);
       if (animationId) cancelAnimationFrame(animationId);
+      cameraTween?.kill();
+      controls.removeEventListener('start', handleControlsStart);
+      controls.removeEventListener('change', handleControlsChange);
       controls.dispose();
       renderer?.dispose();
+      clearSquareHighlights(squares);
       squareGeometry.dispose();
       baseGeometry.dispose();
       tableGeometry.dispose();
@@ -580,17 +1113,58 @@ function Chessboard(props: ChessboardProps) {
       waterGeometry.dispose();
       moldingGeometries.forEach((g) => g.dispose());
       labelGeometry.dispose();
+      arrowLayer?.geometries.forEach((g) => g.dispose());
       materialsToDispose.forEach((m) => m.dispose());
       texturesToDispose.forEach((t) => t.dispose());
       // Dispose piece model geometries and original GLTF materials
-      const pm = pieceModels();
-      if (pm) Object.values(pm).forEach(disposeModel);
+      pieceSets.forEach((models) => models.then((pm) => Object.values(pm).forEach(disposeModel)));
+      if (uploadedModels) Object.values(uploadedModels).forEach(disposeModel);
       if (crownModel) disposeModel(crownModel);
       if (chairModel) disposeModel(chairModel);
     });
   });
 
-  return <div border-style="solid" ref={containerRef} class="chessboard-container" />;
+  const choosePromotion = (move: Move | null) => {
+    const choice = promotionChoice();
+    if (!choice) return;
+    setPromotionChoice(null);
+    if (move) props.onUserMove?.(move);
+    else choice.cancel();
+  };
+
+  createEffect(() => props.onPromotionPending?.(!!promotionChoice()));
+
+  return (
+    <>
+      <div
+        border-style="solid"
+        ref={containerRef}
+        class="chessboard-container"
+        role="img"
+        aria-label="3D chess board"
+      />
+      <Show when={promotionChoice()}>
+        {(choice) => (
+          <Overlay
+            class="export-dialog promotion-picker"
+            label="Promote the pawn to"
+            onClose={() => choosePromotion(null)}
+          >
+            <h1 class="game-info-title">PROMOTE TO</h1>
+            <div class="playback-controls">
+              <For each={choice().moves}>
+                {(move) => (
+                  <button class="ok export-start" onClick={() => choosePromotion(move)}>
+                    {PIECE_TYPE_MAP[move.promotion!]}
+                  </button>
+                )}
+              </For>
+            </div>
+          </Overlay>
+        )}
+      </Show>
+    </>
+  );
 }
 
 export default Chessboard;
@@ -0,0 +1,29 @@
+import { Show } from 'solid-js';
+import { formatScore, getWhiteShare, type EngineAnalysis } from './uciEngine';
+
+interface EvalBarProps {
+  analysis: EngineAnalysis | null;
+}
+
+function EvalBar(props: EvalBarProps) {
+  const whiteShare = () =>
+    props.analysis ? getWhiteShare(props.analysis.score, props.analysis.fen) : 0.5;
+
+  return (
+    <div
+      class="eval-bar"
+      title={props.analysis ? `Depth ${props.analysis.depth}` : 'Engine is thinking'}
+    >
+      <div class="eval-bar-white" style={{ height: `${whiteShare() * 100}%` }} />
+      <Show when={props.analysis}>
+        {(analysis) => (
+          <span class="eval-bar-score" classList={{ 'white-ahead': whiteShare() >= 0.5 }}>
+            {formatScore(analysis().score)}
+          </span>
+        )}
+      </Show>
+    </div>
+  );
+}
+
+export default EvalBar;
@@ -0,0 +1,141 @@
+import { createSignal, For, Show } from 'solid-js';
+import Overlay from './Overlay';
+import { CAMERA_VIEW_NAMES, CAMERA_VIEWS, type CameraViewName } from './cameraViews';
+import {
+  canRecordWebm,
+  EXPORT_RESOLUTIONS,
+  type ExportFormat,
+  type ExportOptions,
+} from './videoExport';
+
+interface ExportDialogProps {
+  moveLabels: string[]; // "12... Nf6" for each move of the line on the board
+  initialIndex: number; // Move on the board; the range starts after it
+  progress: number | null; // Fraction recorded so far, or null before recording starts
+  onExport: (options: ExportOptions) => void;
+  onCancel: () => void;
+  onClose: () => void;
+}
+
+function ExportDialog(props: ExportDialogProps) {
+  const lastIndex = () => props.moveLabels.length - 1;
+  const [format, setFormat] = createSignal<ExportFormat>(canRecordWebm() ? 'webm' : 'gif');
+  const [fromIndex, setFromIndex] = createSignal(
+    props.initialIndex < lastIndex() ? props.initialIndex + 1 : 0
+  );
+  const [toIndex, setToIndex] = createSignal(lastIndex());
+  const [resolution, setResolution] = createSignal(1);
+  const [view, setView] = createSignal<CameraViewName | ''>('');
+
+  const recording = () => props.progress !== null;
+
+  const handleExport = () => {
+    const { width, height } = EXPORT_RESOLUTIONS[resolution()];
+    props.onExport({
+      format: format(),
+      fromIndex: Math.min(fromIndex(), toIndex()),
+      toIndex: Math.max(fromIndex(), toIndex()),
+      width,
+      height,
+      view: view() || null,
+    });
+  };
+
+  const moveOptions = () => (
+    <For each={props.moveLabels}>{(label, i) => <option value={i()}>{label}</option>}</For>
+  );
+
+  return (
+    <Overlay
+      class="export-dialog"
+      label="Export clip"
+      onClose={() => (recording() ? props.onCancel() : props.onClose())}
+    >
+      <h1 class="game-info-title">EXPORT CLIP</h1>
+      <Show
+        when={!recording()}
+        fallback={
+          <div class="export-progress">
+            <progress value={props.progress ?? 0} max={1} />
+            <span>Recording… {Math.floor((props.progress ?? 0) * 100)}%</span>
+          </div>
+        }
+      >
+        <div class="export-fields">
+          <label class="browser-field">
+            Format
+            <select
+              value={format()}
+              onChange={(e) => setFormat(e.currentTarget.value as ExportFormat)}
+            >
+              <option value="webm" disabled={!canRecordWebm()}>
+                WebM video
+              </option>
+              <option value="gif">Animated GIF</option>
+            </select>
+          </label>
+          <label class="browser-field">
+            From
+            <select
+              value={fromIndex()}
+              onChange={(e) => setFromIndex(parseInt(e.currentTarget.value, 10))}
+            >
+              {moveOptions()}
+            </select>
+          </label>
+          <label class="browser-field">
+            To
+            <select
+              value={toIndex()}
+              onChange={(e) => setToIndex(parseInt(e.currentTarget.value, 10))}
+            >
+              {moveOptions()}
+            </select>
+          </label>
+          <label class="browser-field">
+            Size
+            <select
+              value={resolution()}
+              onChange={(e) => setResolution(parseInt(e.currentTarget.value, 10))}
+            >
+              <For each={EXPORT_RESOLUTIONS}>
+                {(option, i) => <option value={i()}>{option.label}</option>}
+              </For>
+            </select>
+          </label>
+          <label class="browser-field">
+            Camera
+            <select
+              value={view()}
+              onChange={(e) => setView(e.currentTarget.value as CameraViewName | '')}
+            >
+              <option value="">As on screen</option>
+              <For each={CAMERA_VIEW_NAMES}>
+                {(name) => <option value={name}>{CAMERA_VIEWS[name].label}</option>}
+              </For>
+            </select>
+          </label>
+        </div>
+      </Show>
+      <div class="playback-controls">
+        <Show
+          when={!recording()}
+          fallback={
+            <button class="ok" onClick={() => props.onCancel()}>
+              Cancel
+            </button>
+          }
+        >
+          <button class="ok export-start" onClick={handleExport} disabled={lastIndex() < 0}>
+            Record
+          </button>
+          <button class="ok" onClick={() => props.onClose()}>
+            Close
+          </button>
+        </Show>
+      </div>
+    </Overlay>
+  );
+}
+
+export default ExportDialog;
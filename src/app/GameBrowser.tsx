@@ -0,0 +1,185 @@
+import { createMemo, createSignal, For, Show } from 'solid-js';
+import type { ParsedGame } from '../assets/games';
+import Overlay from './Overlay';
+import {
+  browseGames,
+  EMPTY_GAME_FILTER,
+  type GameFilter,
+  type GameResult,
+  type GameSort,
+  type GameSortKey,
+} from './gameFilter';
+
+interface GameBrowserProps {
+  games: ParsedGame[];
+  selected: ParsedGame | null;
+  onSelect: (game: ParsedGame) => void;
+  onClose: () => void;
+}
+
+const COLUMNS: { key: GameSortKey; label: string }[] = [
+  { key: 'white', label: 'White' },
+  { key: 'black', label: 'Black' },
+  { key: 'event', label: 'Event' },
+  { key: 'site', label: 'Site' },
+  { key: 'date', label: 'Date' },
+  { key: 'eco', label: 'ECO' },
+  { key: 'result', label: 'Result' },
+  { key: 'elo', label: 'Elo' },
+];
+
+const RESULTS: GameResult[] = ['1-0', '0-1', '1/2-1/2', '*'];
+
+type TextField = 'text' | 'player' | 'event' | 'site' | 'dateFrom' | 'dateTo' | 'eco';
+
+function GameBrowser(props: GameBrowserProps) {
+  const [filter, setFilter] = createSignal<GameFilter>(EMPTY_GAME_FILTER);
+  const [sort, setSort] = createSignal<GameSort | null>(null);
+  const results = createMemo(() => browseGames(props.games, filter(), sort()));
+
+  const updateFilter = (change: Partial<GameFilter>) => setFilter({ ...filter(), ...change });
+
+  const parseRating = (value: string) => {
+    const rating = parseInt(value, 10);
+    return Number.isFinite(rating) ? rating : null;
+  };
+
+  // First click sorts ascending, the second descending, the third back to list order
+  const handleSort = (key: GameSortKey) => {
+    const current = sort();
+    if (current?.key !== key) {
+      setSort({ key, direction: 'asc' });
+    } else if (current.direction === 'asc') {
+      setSort({ key, direction: 'desc' });
+    } else {
+      setSort(null);
+    }
+  };
+
+  const ariaSort = (key: GameSortKey) => {
+    const current = sort();
+    if (current?.key !== key) return 'none';
+    return current.direction === 'asc' ? 'ascending' : 'descending';
+  };
+
+  const sortIndicator = (key: GameSortKey) => {
+    const current = sort();
+    if (current?.key !== key) return '';
+    return current.direction === 'asc' ? ' ▲' : ' ▼';
+  };
+
+  const textInput = (field: TextField, label: string, placeholder = '') => (
+    <label class="browser-field">
+      {label}
+      <input
+        type="text"
+        value={filter()[field]}
+        placeholder={placeholder}
+        onInput={(e) => updateFilter({ [field]: e.currentTarget.value })}
+      />
+    </label>
+  );
+
+  return (
+    <Overlay class="browser-dialog" label="Games" onClose={props.onClose}>
+      <h1 class="game-info-title">GAMES</h1>
+      <div class="browser-filters">
+        {textInput('text', 'Search', 'Anything')}
+        {textInput('player', 'Player')}
+        {textInput('event', 'Event')}
+        {textInput('site', 'Site')}
+        {textInput('dateFrom', 'From', 'YYYY.MM.DD')}
+        {textInput('dateTo', 'To', 'YYYY.MM.DD')}
+        {textInput('eco', 'ECO', 'B or B20-B99')}
+        <label class="browser-field">
+          Result
+          <select
+            value={filter().result}
+            onChange={(e) => updateFilter({ result: e.currentTarget.value as GameResult | '' })}
+          >
+            <option value="">Any</option>
+            <For each={RESULTS}>{(result) => <option value={result}>{result}</option>}</For>
+          </select>
+        </label>
+        <label class="browser-field">
+          Min Elo
+          <input
+            type="number"
+            value={filter().minElo ?? ''}
+            onInput={(e) => updateFilter({ minElo: parseRating(e.currentTarget.value) })}
+          />
+        </label>
+        <label class="browser-field">
+          Max Elo
+          <input
+            type="number"
+            value={filter().maxElo ?? ''}
+            onInput={(e) => updateFilter({ maxElo: parseRating(e.currentTarget.value) })}
+          />
+        </label>
+      </div>
+      <div class="browser-results">
+        <table class="browser-table">
+          <thead>
+            <tr>
+              <For each={COLUMNS}>
+                {(column) => (
+                  <th aria-sort={ariaSort(column.key)}>
+                    <button
+                      class="browser-sort"
+                      onClick={() => handleSort(column.key)}
+                      title={`Sort by ${column.label}`}
+                    >
+                      {column.label}
+                      {sortIndicator(column.key)}
+                    </button>
+                  </th>
+                )}
+              </For>
+            </tr>
+          </thead>
+          <tbody>
+            <For each={results()}>
+              {(summary) => (
+                <tr
+                  classList={{ current: summary.game === props.selected }}
+                  onClick={() => props.onSelect(summary.game)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') props.onSelect(summary.game);
+                  }}
+                  tabIndex={0}
+                  title={summary.title}
+                >
+                  <td>{summary.white || '?'}</td>
+                  <td>{summary.black || '?'}</td>
+                  <td>{summary.event}</td>
+                  <td>{summary.site}</td>
+                  <td>{summary.date}</td>
+                  <td>{summary.eco}</td>
+                  <td>{summary.result}</td>
+                  <td>{summary.elo ?? ''}</td>
+                </tr>
+              )}
+            </For>
+          </tbody>
+        </table>
+        <Show when={!results().length}>
+          <p class="browser-empty">No games match.</p>
+        </Show>
+      </div>
+      <div class="playback-controls">
+        <span class="browser-count">
+          {results().length} of {props.games.length}
+        </span>
+        <button class="ok browser-clear" onClick={() => setFilter(EMPTY_GAME_FILTER)}>
+          Clear
+        </button>
+        <button class="ok" onClick={() => props.onClose()}>
+          Close
+        </button>
+      </div>
+    </Overlay>
+  );
+}
+
+export default GameBrowser;
@@ -0,0 +1,50 @@
+import { For, Show } from 'solid-js';
+import Overlay from './Overlay';
+import { describeIssue, type PgnFileCheck } from './pgnValidation';
+
+interface ImportDialogProps {
+  check: PgnFileCheck;
+  onLoadLegal: () => void;
+  onClose: () => void;
+}
+
+function ImportDialog(props: ImportDialogProps) {
+  const problemGames = () => props.check.games.filter((game) => game.issues.length > 0);
+  const loadableCount = () => props.check.games.filter((game) => game.legalGame).length;
+
+  return (
+    <Overlay class="import-dialog" label="PGN problems" onClose={props.onClose}>
+      <h1 class="game-info-title">PGN PROBLEMS</h1>
+      <p class="import-source">{props.check.source}</p>
+      <Show when={props.check.syntaxError}>
+        {(issue) => <p class="import-issue">{describeIssue(issue())}</p>}
+      </Show>
+      <For each={problemGames()}>
+        {(game) => (
+          <div class="import-game">
+            <strong>{game.game.name}</strong>
+            <For each={game.issues}>
+              {(issue) => <p class="import-issue">{describeIssue(issue)}</p>}
+            </For>
+          </div>
+        )}
+      </For>
+      <div class="playback-controls">
+        <Show when={loadableCount() > 0}>
+          <button
+            class="ok import-load"
+            onClick={() => props.onLoadLegal()}
+            title="Load each game up to its first illegal move"
+          >
+            Load legal moves
+          </button>
+        </Show>
+        <button class="ok" onClick={() => props.onClose()}>
+          Cancel
+        </button>
+      </div>
+    </Overlay>
+  );
+}
+
+export default ImportDialog;
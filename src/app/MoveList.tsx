@@ -0,0 +1,92 @@
+import { createEffect, For, Show } from 'solid-js';
+import type { PgnMove } from './moveTree';
+import { getMoveComment, getMoveNumberLabel, getNagSymbols } from './notation';
+
+interface MoveListProps {
+  moves: PgnMove[];
+  currentIndex: number;
+  startTurn: 'w' | 'b';
+  startMoveNumber: number;
+  gameComment?: string;
+  onSelect: (index: number) => void;
+  onSelectVariation: (index: number, variationIndex: number) => void;
+}
+
+function MoveList(props: MoveListProps) {
+  let listRef: HTMLDivElement | undefined;
+
+  // Keep the highlighted move in view as the game advances
+  createEffect(() => {
+    const index = props.currentIndex;
+    if (index < 0 || !props.moves.length) return;
+    const current = listRef?.querySelectorAll('.move-san')[index];
+    current?.scrollIntoView({ block: 'nearest' });
+  });
+
+  // Black moves are numbered at the start of the list and after comments or variations
+  const needsBlackNumber = (index: number) => {
+    const previous = props.moves[index - 1];
+    if (!previous) return true;
+    return (
+      !!getMoveComment(previous) ||
+      !!props.moves[index].commentMove ||
+      previous.variations?.some((v) => v.length > 0)
+    );
+  };
+
+  const variationText = (variation: PgnMove[]) =>
+    variation
+      .slice(0, 3)
+      .map((m) => m.notation.notation)
+      .join(' ') + (variation.length > 3 ? ' …' : '');
+
+  return (
+    <div class="move-list" ref={listRef}>
+      <Show when={props.gameComment}>
+        <span class="move-comment">{props.gameComment}</span>
+      </Show>
+      <For each={props.moves}>
+        {(move, i) => (
+          <>
+            <Show when={move.commentMove}>
+              <span class="move-comment">{move.commentMove}</span>
+            </Show>
+            <span class="move-number">
+              {getMoveNumberLabel(
+                i(),
+                props.startTurn,
+                props.startMoveNumber,
+                needsBlackNumber(i())
+              )}
+            </span>
+            <button
+              class="move-san"
+              classList={{ current: i() === props.currentIndex }}
+              onClick={() => props.onSelect(i())}
+              title="Jump to this move"
+            >
+              {move.notation.notation}
+              <span class="move-nag">{getNagSymbols(move)}</span>
+            </button>
+            <For each={move.variations?.filter((v) => v.length > 0)}>
+              {(variation, v) => (
+                <button
+                  class="move-variation"
+                  onClick={() => props.onSelectVariation(i(), v())}
+                  title="Jump into this variation"
+                >
+                  ({variationText(variation)})
+                </button>
+              )}
+            </For>
+            <Show when={getMoveComment(move)}>
+              <span class="move-comment">{getMoveComment(move)}</span>
+            </Show>
+          </>
+        )}
+      </For>
+    </div>
+  );
+}
+
+export default MoveList;
@@ -0,0 +1,80 @@
+import { onCleanup, onMount, type JSX } from 'solid-js';
+
+interface OverlayProps {
+  class: string;
+  label: string; // Accessible name of the dialog
+  onClose: () => void;
+  // Close on any click, not only outside the dialog (for dialogs with nothing to interact with)
+  closeOnClick?: boolean;
+  children: JSX.Element;
+}
+
+const FOCUSABLE =
+  'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// A modal dialog over the page. Tab stays inside it, Escape closes it, and focus goes back
+// to where it was when it closes.
+function Overlay(props: OverlayProps) {
+  let dialogRef: HTMLDivElement | undefined;
+  const previousFocus = document.activeElement as HTMLElement | null;
+
+  const focusable = () =>
+    Array.from(dialogRef?.querySelectorAll<HTMLElement>(FOCUSABLE) ?? []).filter(
+      (element) => element.offsetParent !== null || element === document.activeElement
+    );
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      props.onClose();
+      return;
+    }
+    if (e.key !== 'Tab') return;
+    const elements = focusable();
+    if (!elements.length) {
+      e.preventDefault();
+      dialogRef?.focus();
+      return;
+    }
+    const first = elements[0];
+    const last = elements[elements.length - 1];
+    const active = document.activeElement;
+    if (e.shiftKey && (active === first || active === dialogRef)) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && active === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  onMount(() => {
+    (focusable()[0] ?? dialogRef)?.focus();
+  });
+
+  onCleanup(() => {
+    previousFocus?.focus?.();
+  });
+
+  return (
+    <div class="about-overlay" onClick={() => props.onClose()}>
+      <div
+        ref={dialogRef}
+        class={props.class}
+        role="dialog"
+        aria-modal="true"
+        aria-label={props.label}
+        tabIndex={-1}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => {
+          e.stopPropagation();
+          if (props.closeOnClick) props.onClose();
+        }}
+      >
+        {props.children}
+      </div>
+    </div>
+  );
+}
+
+export default Overlay;
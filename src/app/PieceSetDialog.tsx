@@ -0,0 +1,139 @@
+import { createSignal, For, onCleanup, onMount, Show } from 'solid-js';
+import Overlay from './Overlay';
+import { PIECE_TYPES, type PieceModels } from './pieceUtils';
+import { disposeModel, loadUploadedPieceSet, type UploadedPieceSet } from './scene/pieces';
+import { createPiecePreview } from './scene/piecePreview';
+
+interface PieceSetDialogProps {
+  hasUploadedPieces: boolean; // Whether the board already uses uploaded pieces
+  onApply: (models: Partial<PieceModels>) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const MODEL_FILE_TYPES = '.glb,.gltf,.bin,.png,.jpg,.jpeg,.webp';
+
+function PieceSetDialog(props: PieceSetDialogProps) {
+  let canvasRef: HTMLCanvasElement | undefined;
+  let preview: ReturnType<typeof createPiecePreview> | undefined;
+  const [upload, setUpload] = createSignal<UploadedPieceSet | null>(null);
+  const [loading, setLoading] = createSignal(false);
+  let disposed = false;
+
+  // Models that were previewed but not applied belong to nobody else
+  const discardUpload = () => {
+    const current = upload();
+    if (current) Object.values(current.models).forEach(disposeModel);
+    setUpload(null);
+  };
+
+  onMount(() => {
+    if (canvasRef) preview = createPiecePreview(canvasRef);
+  });
+  onCleanup(() => {
+    disposed = true;
+    preview?.dispose();
+    discardUpload();
+  });
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setLoading(true);
+    try {
+      const loaded = await loadUploadedPieceSet([...files]);
+      // Closed while loading: nobody will preview or apply these
+      if (disposed) {
+        Object.values(loaded.models).forEach(disposeModel);
+        return;
+      }
+      discardUpload();
+      setUpload(loaded);
+      preview?.show(loaded.models);
+    } catch (error) {
+      if (disposed) return;
+      discardUpload();
+      const message = error instanceof Error ? error.message : String(error);
+      setUpload({ models: {}, missing: [...PIECE_TYPES], errors: [message] });
+      preview?.show({});
+    } finally {
+      if (!disposed) setLoading(false);
+    }
+  };
+
+  const handleApply = () => {
+    const current = upload();
+    if (!current) return;
+    // The board owns the models from here on
+    setUpload(null);
+    props.onApply(current.models);
+    props.onClose();
+  };
+
+  const found = () => PIECE_TYPES.filter((type) => !upload()?.missing.includes(type));
+
+  return (
+    <Overlay class="export-dialog" label="Piece models" onClose={props.onClose}>
+      <h1 class="game-info-title">PIECE MODELS</h1>
+      <p class="piece-set-help">
+        Choose a glTF or GLB file per piece, named after it (e.g. <code>knight.glb</code>), or one
+        file with a node named after each piece. Models are stood upright and sized for the board,
+        and take the colors of the theme.
+      </p>
+      <label class="browser-field">
+        Files
+        <input
+          type="file"
+          multiple
+          accept={MODEL_FILE_TYPES}
+          disabled={loading()}
+          onChange={(e) => handleFiles(e.currentTarget.files)}
+        />
+      </label>
+      <canvas ref={canvasRef} class="piece-preview" aria-label="Preview of the uploaded pieces" />
+      <Show when={loading()}>
+        <p class="piece-set-status">Loading…</p>
+      </Show>
+      <Show when={upload()}>
+        {(current) => (
+          <>
+            <p class="piece-set-status">
+              <Show when={found().length > 0} fallback="No piece models were found.">
+                Found: {found().join(', ')}.
+              </Show>
+              <Show when={found().length > 0 && current().missing.length > 0}>
+                {' '}
+                The theme's {current().missing.join(', ')} stay.
+              </Show>
+            </p>
+            <For each={current().errors}>{(error) => <p class="import-issue">{error}</p>}</For>
+          </>
+        )}
+      </Show>
+      <div class="playback-controls">
+        <button
+          class="ok export-start"
+          onClick={handleApply}
+          disabled={!upload() || found().length === 0}
+        >
+          Use these pieces
+        </button>
+        <Show when={props.hasUploadedPieces}>
+          <button
+            class="ok export-start"
+            onClick={() => {
+              props.onReset();
+              props.onClose();
+            }}
+          >
+            Theme pieces
+          </button>
+        </Show>
+        <button class="ok" onClick={() => props.onClose()}>
+          Close
+        </button>
+      </div>
+    </Overlay>
+  );
+}
+
+export default PieceSetDialog;
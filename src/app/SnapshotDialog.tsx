@@ -0,0 +1,75 @@
+import { createSignal } from 'solid-js';
+import Overlay from './Overlay';
+import { clampSnapshotSize, MAX_SNAPSHOT_SIZE, type SnapshotOptions } from './snapshot';
+
+interface SnapshotDialogProps {
+  onSavePicture: (options: SnapshotOptions) => void;
+  onSaveDiagram: (coordinates: boolean) => void;
+  onClose: () => void;
+}
+
+function SnapshotDialog(props: SnapshotDialogProps) {
+  const [width, setWidth] = createSignal(3840);
+  const [height, setHeight] = createSignal(2160);
+  const [transparent, setTransparent] = createSignal(false);
+  const [coordinates, setCoordinates] = createSignal(true);
+
+  const sizeInput = (value: () => number, setValue: (n: number) => void, label: string) => (
+    <label class="browser-field">
+      {label}
+      <input
+        type="number"
+        min={1}
+        max={MAX_SNAPSHOT_SIZE}
+        value={value()}
+        onInput={(e) => setValue(parseInt(e.currentTarget.value, 10))}
+      />
+    </label>
+  );
+
+  const handleSavePicture = () =>
+    props.onSavePicture({ ...clampSnapshotSize(width(), height()), transparent: transparent() });
+
+  return (
+    <Overlay class="export-dialog" label="Snapshot" onClose={props.onClose}>
+      <h1 class="game-info-title">SNAPSHOT</h1>
+      <h2 class="snapshot-heading">Picture</h2>
+      <div class="export-fields">
+        {sizeInput(width, setWidth, 'Width')}
+        {sizeInput(height, setHeight, 'Height')}
+        <label class="overlay-toggle snapshot-toggle">
+          <input
+            type="checkbox"
+            checked={transparent()}
+            onChange={(e) => setTransparent(e.currentTarget.checked)}
+          />
+          Transparent background
+        </label>
+      </div>
+      <div class="playback-controls">
+        <button class="ok export-start" onClick={handleSavePicture}>
+          Save PNG
+        </button>
+      </div>
+      <h2 class="snapshot-heading">Diagram</h2>
+      <label class="overlay-toggle snapshot-toggle">
+        <input
+          type="checkbox"
+          checked={coordinates()}
+          onChange={(e) => setCoordinates(e.currentTarget.checked)}
+        />
+        Coordinates
+      </label>
+      <div class="playback-controls">
+        <button class="ok export-start" onClick={() => props.onSaveDiagram(coordinates())}>
+          Save SVG
+        </button>
+        <button class="ok" onClick={() => props.onClose()}>
+          Close
+        </button>
+      </div>
+    </Overlay>
+  );
+}
+
+export default SnapshotDialog;
@@ -0,0 +1,61 @@
+import { Chess, type Square } from 'chess.js';
+
+// Colors for PGN [%csl]/[%cal] annotations, keyed by their one-letter codes
+export const MARK_COLORS = {
+  R: 'markRed',
+  G: 'markGreen',
+  B: 'markBlue',
+  Y: 'markYellow',
+} as const;
+
+export type MarkColor = (typeof MARK_COLORS)[keyof typeof MARK_COLORS];
+
+export type ArrowKind = 'preview' | 'threat' | 'best' | MarkColor;
+
+export interface BoardArrow {
+  from: Square;
+  to: Square;
+  kind: ArrowKind;
+}
+
+// Arrow for the move about to be played from this position, if it is legal here
+export function getPreviewArrow(chess: Chess, san: string | undefined): BoardArrow | null {
+  if (!san) return null;
+  try {
+    const move = new Chess(chess.fen()).move(san);
+    return { from: move.from, to: move.to, kind: 'preview' };
+  } catch {
+    return null;
+  }
+}
+
+// Arrow for an engine move in UCI notation, e.g. "e2e4" or "e7e8q"
+export function getUciArrow(uci: string | null | undefined, kind: ArrowKind): BoardArrow | null {
+  if (!uci || !/^[a-h][1-8][a-h][1-8]/.test(uci)) return null;
+  return { from: uci.slice(0, 2) as Square, to: uci.slice(2, 4) as Square, kind };
+}
+
+// Arrows from a [%cal] annotation, e.g. ["Gd2d4", "Rg1f3"]
+export function parseColorArrows(codes: string[] | undefined): BoardArrow[] {
+  const arrows: BoardArrow[] = [];
+  for (const code of codes ?? []) {
+    const match = /^([RGBY])([a-h][1-8])([a-h][1-8])$/.exec(code.trim());
+    if (!match) continue;
+    const kind = MARK_COLORS[match[1] as keyof typeof MARK_COLORS];
+    arrows.push({ from: match[2] as Square, to: match[3] as Square, kind });
+  }
+  return arrows;
+}
+
+// Legal captures the side to move has against pieces nobody defends
+export function getThreatArrows(chess: Chess): BoardArrow[] {
+  const opponent = chess.turn() === 'w' ? 'b' : 'w';
+  const arrows = new Map<string, BoardArrow>();
+  for (const move of chess.moves({ verbose: true })) {
+    if (!move.captured || move.isEnPassant()) continue;
+    if (chess.isAttacked(move.to, opponent)) continue;
+    // Promotions offer one move per piece; a single arrow covers them
+    arrows.set(`${move.from}${move.to}`, { from: move.from, to: move.to, kind: 'threat' });
+  }
+  return [...arrows.values()];
+}
@@ -0,0 +1,105 @@
+import type { Chess, Color, PieceSymbol } from 'chess.js';
+
+// Rows of squares as chess.js board() gives them: rank 8 first, a-file first
+export type DiagramBoard = ReturnType<Chess['board']>;
+
+export interface DiagramOptions {
+  flipped?: boolean; // Black at the bottom
+  coordinates?: boolean; // Files and ranks around the edge
+  squareSize?: number;
+}
+
+const DEFAULT_SQUARE_SIZE = 45;
+const FONT_FAMILY = "'DejaVu Sans', 'Segoe UI Symbol', 'Arial Unicode MS', serif";
+const FILES = 'abcdefgh';
+
+// Figurines; the text variation selector keeps the black pawn from turning into an emoji
+const TEXT_STYLE = '\uFE0E';
+const OUTLINE_GLYPHS: Record<PieceSymbol, string> = {
+  k: '♔',
+  q: '♕',
+  r: '♖',
+  b: '♗',
+  n: '♘',
+  p: '♙',
+};
+const SOLID_GLYPHS: Record<PieceSymbol, string> = {
+  k: '♚',
+  q: '♛',
+  r: '♜',
+  b: '♝',
+  n: '♞',
+  p: '♟',
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+function pieceGlyphs(type: PieceSymbol, color: Color, x: number, y: number): string {
+  const at = `x="${round(x)}" y="${round(y)}"`;
+  if (color === 'b') return `<text ${at} fill="#000">${SOLID_GLYPHS[type]}${TEXT_STYLE}</text>`;
+  // White pieces are outlines; a white silhouette underneath hides the hatching inside them
+  return (
+    `<text ${at} fill="#fff">${SOLID_GLYPHS[type]}${TEXT_STYLE}</text>` +
+    `<text ${at} fill="#000">${OUTLINE_GLYPHS[type]}${TEXT_STYLE}</text>`
+  );
+}
+
+// A printed-book style diagram: plain light squares, hatched dark squares, a heavy border
+// and figurine pieces. Returns the SVG document as text.
+export function createBoardDiagram(board: DiagramBoard, options: DiagramOptions = {}): string {
+  const size = options.squareSize ?? DEFAULT_SQUARE_SIZE;
+  const margin = options.coordinates === false ? size * 0.15 : size * 0.6;
+  const boardSize = size * 8;
+  const total = round(boardSize + margin * 2);
+  // Board coordinates of a row and file as drawn, with white at the bottom unless flipped
+  const place = (rank: number, file: number) =>
+    options.flipped ? { row: 7 - rank, col: 7 - file } : { row: rank, col: file };
+
+  const squares: string[] = [];
+  const pieces: string[] = [];
+  for (let rank = 0; rank < 8; rank++) {
+    for (let file = 0; file < 8; file++) {
+      const { row, col } = place(rank, file);
+      const x = margin + col * size;
+      const y = margin + row * size;
+      if ((rank + file) % 2 === 1) {
+        squares.push(
+          `<rect x="${round(x)}" y="${round(y)}" width="${size}" height="${size}" fill="url(#hatch)"/>`
+        );
+      }
+      const piece = board[rank]?.[file];
+      if (piece) pieces.push(pieceGlyphs(piece.type, piece.color, x + size / 2, y + size / 2));
+    }
+  }
+
+  const labels: string[] = [];
+  if (options.coordinates !== false) {
+    for (let i = 0; i < 8; i++) {
+      const { row, col } = place(i, i);
+      const file = `<text x="${round(margin + col * size + size / 2)}" y="${round(margin + boardSize + margin / 2)}">${FILES[i]}</text>`;
+      const rank = `<text x="${round(margin / 2)}" y="${round(margin + row * size + size / 2)}">${8 - i}</text>`;
+      labels.push(file, rank);
+    }
+  }
+
+  const hatch = round(size / 15);
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${total}" height="${total}" viewBox="0 0 ${total} ${total}">`,
+    '<defs>',
+    `<pattern id="hatch" patternUnits="userSpaceOnUse" width="${hatch}" height="${hatch}" patternTransform="rotate(45)">`,
+    `<line x1="0" y1="0" x2="0" y2="${hatch}" stroke="#000" stroke-width="${round(hatch / 3)}"/>`,
+    '</pattern>',
+    '</defs>',
+    `<rect width="${total}" height="${total}" fill="#fff"/>`,
+    ...squares,
+    `<rect x="${round(margin)}" y="${round(margin)}" width="${boardSize}" height="${boardSize}" fill="none" stroke="#000" stroke-width="${round(size / 20)}"/>`,
+    `<g font-family="${FONT_FAMILY}" font-size="${round(size * 0.85)}" text-anchor="middle" dominant-baseline="central">`,
+    ...pieces,
+    '</g>',
+    `<g font-family="serif" font-size="${round(size * 0.3)}" text-anchor="middle" dominant-baseline="central">`,
+    ...labels,
+    '</g>',
+    '</svg>',
+    '',
+  ].join('\n');
+}
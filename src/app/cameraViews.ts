@@ -0,0 +1,118 @@
+import * as THREE from 'three';
+import gsap from 'gsap';
+import type { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+
+export const CAMERA_VIEW_DURATION = 1.2; // seconds
+
+export type CameraViewName = 'white' | 'black' | 'top' | 'side';
+
+// A camera pose around the board center, as spherical angles plus a
+// distance relative to the default (device-dependent) viewing distance
+export interface CameraPose {
+  phi: number; // angle down from straight above
+  theta: number; // angle around the board, 0 = white's side
+  distanceScale: number;
+}
+
+export interface CameraView extends CameraPose {
+  label: string;
+}
+
+export const CAMERA_VIEWS: Record<CameraViewName, CameraView> = {
+  white: { label: 'White POV', phi: 1.13, theta: 0, distanceScale: 1 },
+  black: { label: 'Black POV', phi: 1.13, theta: Math.PI, distanceScale: 1 },
+  top: { label: 'Top Down', phi: 0, theta: 0, distanceScale: 1.15 },
+  side: { label: 'Cinematic', phi: 1.25, theta: Math.PI / 2 - 0.35, distanceScale: 0.9 },
+};
+
+export const CAMERA_VIEW_NAMES = Object.keys(CAMERA_VIEWS) as CameraViewName[];
+
+// Swap between the two players' points of view
+export function getFlippedView(view: CameraViewName): CameraViewName {
+  return view === 'black' ? 'white' : 'black';
+}
+
+// Spherical pose for a view, kept inside the orbit controls' distance and angle limits
+export function getViewSpherical(
+  view: CameraPose,
+  baseDistance: number,
+  controls: Pick<OrbitControls, 'minDistance' | 'maxDistance' | 'minPolarAngle' | 'maxPolarAngle'>
+): THREE.Spherical {
+  const radius = THREE.MathUtils.clamp(
+    baseDistance * view.distanceScale,
+    controls.minDistance,
+    controls.maxDistance
+  );
+  // Looking exactly straight down leaves the orbit direction undefined
+  const phi = THREE.MathUtils.clamp(
+    view.phi,
+    Math.max(controls.minPolarAngle, 0.001),
+    controls.maxPolarAngle
+  );
+  return new THREE.Spherical(radius, phi, view.theta);
+}
+
+// Where the camera is now, relative to the controls' target
+export function getCameraPose(
+  camera: THREE.Camera,
+  target: THREE.Vector3,
+  baseDistance: number
+): CameraPose {
+  const spherical = new THREE.Spherical().setFromVector3(camera.position.clone().sub(target));
+  return {
+    phi: spherical.phi,
+    theta: spherical.theta,
+    distanceScale: spherical.radius / baseDistance,
+  };
+}
+
+// Move the camera straight to a pose, without animating
+export function placeCamera(
+  camera: THREE.Camera,
+  controls: OrbitControls,
+  pose: CameraPose,
+  baseDistance: number
+): void {
+  const spherical = getViewSpherical(pose, baseDistance, controls);
+  camera.position.setFromSpherical(spherical).add(controls.target);
+  camera.lookAt(controls.target);
+}
+
+// Tween the camera around the controls' target to a preset view
+export function animateCameraToView(
+  camera: THREE.Camera,
+  controls: OrbitControls,
+  view: CameraPose,
+  baseDistance: number,
+  duration: number = CAMERA_VIEW_DURATION
+): gsap.core.Tween {
+  const target = controls.target;
+  const start = new THREE.Spherical().setFromVector3(camera.position.clone().sub(target));
+  const end = getViewSpherical(view, baseDistance, controls);
+
+  // Go the short way around the board
+  let thetaDelta = end.theta - start.theta;
+  thetaDelta = Math.atan2(Math.sin(thetaDelta), Math.cos(thetaDelta));
+
+  const pose = { radius: start.radius, phi: start.phi, theta: start.theta };
+  const spherical = new THREE.Spherical();
+  controls.enabled = false;
+  return gsap.to(pose, {
+    duration,
+    radius: end.radius,
+    phi: end.phi,
+    theta: start.theta + thetaDelta,
+    ease: 'power2.inOut',
+    onUpdate: () => {
+      spherical.set(pose.radius, pose.phi, pose.theta);
+      camera.position.setFromSpherical(spherical).add(target);
+      camera.lookAt(target);
+    },
+    onComplete: () => {
+      controls.enabled = true;
+    },
+    onInterrupt: () => {
+      controls.enabled = true;
+    },
+  });
+}
@@ -0,0 +1,186 @@
+import type { ParsedGame } from '../assets/games';
+import { getGameTitle } from './gameLibrary';
+import { tagValue } from './pgnExport';
+
+export type GameResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+// Every field is optional; empty strings and nulls match everything
+export interface GameFilter {
+  text: string; // Anywhere in the players, event, site, the user's name for the game or its tags
+  player: string; // White or Black
+  event: string;
+  site: string;
+  dateFrom: string; // "1851", "1851.06" or "1851.06.21"
+  dateTo: string;
+  eco: string; // A prefix such as "B" or "B90", or a range such as "B20-B99"
+  result: GameResult | '';
+  minElo: number | null; // Compared with the players' average rating
+  maxElo: number | null;
+}
+
+export const EMPTY_GAME_FILTER: GameFilter = {
+  text: '',
+  player: '',
+  event: '',
+  site: '',
+  dateFrom: '',
+  dateTo: '',
+  eco: '',
+  result: '',
+  minElo: null,
+  maxElo: null,
+};
+
+export type GameSortKey = 'white' | 'black' | 'event' | 'site' | 'date' | 'eco' | 'result' | 'elo';
+
+export interface GameSort {
+  key: GameSortKey;
+  direction: 'asc' | 'desc';
+}
+
+// The tags the browser shows for a game, read once so filtering and sorting stay cheap
+export interface GameSummary {
+  game: ParsedGame;
+  title: string;
+  white: string;
+  black: string;
+  event: string;
+  site: string;
+  date: string; // As written in the PGN, e.g. "1851.??.??"
+  eco: string;
+  result: string;
+  elo: number | null; // Average of the ratings that are known
+}
+
+// PGN placeholders such as "?" or "????.??.??" mean the value is unknown
+function knownTag(value: unknown): string {
+  const text = tagValue(value).trim();
+  return /^[?.\-\s]*$/.test(text) ? '' : text;
+}
+
+function parseElo(value: unknown): number | null {
+  const elo = parseInt(tagValue(value), 10);
+  return Number.isFinite(elo) && elo > 0 ? elo : null;
+}
+
+export function summarizeGame(game: ParsedGame): GameSummary {
+  const tags = game.parsed.tags;
+  const ratings = [parseElo(tags?.WhiteElo), parseElo(tags?.BlackElo)].filter(
+    (elo): elo is number => elo !== null
+  );
+  return {
+    game,
+    title: getGameTitle(game),
+    white: knownTag(tags?.White),
+    black: knownTag(tags?.Black),
+    event: knownTag(tags?.Event),
+    site: knownTag(tags?.Site),
+    date: knownTag(tags?.Date),
+    eco: knownTag(tags?.ECO).toUpperCase(),
+    result: knownTag(tags?.Result) || '*',
+    elo: ratings.length ? Math.round(ratings.reduce((a, b) => a + b, 0) / ratings.length) : null,
+  };
+}
+
+// Earliest and latest day a PGN date could be, as yyyymmdd numbers. Unknown parts ("??")
+// widen the range, so "1851.??.??" covers the whole year. Null if even the year is unknown.
+export function getDateRange(date: string): [number, number] | null {
+  const [year, month, day] = date.split(/[.\-/]/).map((part) => parseInt(part, 10));
+  if (!Number.isFinite(year)) return null;
+  const knownMonth = Number.isFinite(month) && month >= 1 && month <= 12;
+  const knownDay = knownMonth && Number.isFinite(day) && day >= 1 && day <= 31;
+  const from = year * 10000 + (knownMonth ? month : 1) * 100 + (knownDay ? day : 1);
+  const to = year * 10000 + (knownMonth ? month : 12) * 100 + (knownDay ? day : 31);
+  return [from, to];
+}
+
+function matchesText(value: string, search: string): boolean {
+  return value.toLowerCase().includes(search.trim().toLowerCase());
+}
+
+function matchesEco(eco: string, search: string): boolean {
+  const query = search.trim().toUpperCase();
+  const range = /^([A-E]\d{0,2})\s*-\s*([A-E]\d{0,2})$/.exec(query);
+  if (!range) return eco.startsWith(query);
+  if (!eco) return false;
+  // Pad the bounds so "B2-B3" covers B20 through B39
+  const low = range[1].padEnd(3, '0');
+  const high = range[2].padEnd(3, '9');
+  return eco >= low && eco <= high;
+}
+
+function matchesDate(date: string, from: string, to: string): boolean {
+  if (!from.trim() && !to.trim()) return true;
+  const range = getDateRange(date);
+  if (!range) return false;
+  const fromRange = getDateRange(from);
+  const toRange = getDateRange(to);
+  // A game matches when any day it could have been played falls inside the filter
+  if (fromRange && range[1] < fromRange[0]) return false;
+  if (toRange && range[0] > toRange[1]) return false;
+  return true;
+}
+
+export function matchesFilter(summary: GameSummary, filter: GameFilter): boolean {
+  if (filter.text.trim()) {
+    const haystack = [
+      summary.title,
+      summary.white,
+      summary.black,
+      summary.event,
+      summary.site,
+      ...(summary.game.labels ?? []),
+    ];
+    if (!haystack.some((value) => matchesText(value, filter.text))) return false;
+  }
+  if (
+    filter.player.trim() &&
+    !matchesText(summary.white, filter.player) &&
+    !matchesText(summary.black, filter.player)
+  ) {
+    return false;
+  }
+  if (filter.event.trim() && !matchesText(summary.event, filter.event)) return false;
+  if (filter.site.trim() && !matchesText(summary.site, filter.site)) return false;
+  if (!matchesDate(summary.date, filter.dateFrom, filter.dateTo)) return false;
+  if (filter.eco.trim() && !matchesEco(summary.eco, filter.eco)) return false;
+  if (filter.result && summary.result !== filter.result) return false;
+  if (filter.minElo !== null && (summary.elo === null || summary.elo < filter.minElo)) return false;
+  if (filter.maxElo !== null && (summary.elo === null || summary.elo > filter.maxElo)) return false;
+  return true;
+}
+
+// Sort value for a column; null for unknown values, which always sort last
+function sortValue(summary: GameSummary, key: GameSortKey): string | number | null {
+  switch (key) {
+    case 'date':
+      return getDateRange(summary.date)?.[0] ?? null;
+    case 'elo':
+      return summary.elo;
+    case 'result':
+      return summary.result === '*' ? null : summary.result;
+    default:
+      return summary[key] || null;
+  }
+}
+
+export function compareSummaries(a: GameSummary, b: GameSummary, sort: GameSort): number {
+  const x = sortValue(a, sort.key);
+  const y = sortValue(b, sort.key);
+  if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+  const order =
+    typeof x === 'number' && typeof y === 'number'
+      ? x - y
+      : String(x).localeCompare(String(y), undefined, { sensitivity: 'base', numeric: true });
+  return sort.direction === 'asc' ? order : -order;
+}
+
+// Games that pass the filter, in the requested order. Ties keep the game list's order.
+export function browseGames(
+  games: ParsedGame[],
+  filter: GameFilter,
+  sort: GameSort | null
+): GameSummary[] {
+  const matches = games.map(summarizeGame).filter((summary) => matchesFilter(summary, filter));
+  return sort ? matches.sort((a, b) => compareSummaries(a, b, sort)) : matches;
+}
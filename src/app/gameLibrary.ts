@@ -0,0 +1,161 @@
+import { parseGames, type ParsedGame } from '../assets/games';
+import { gameToPgn } from './pgnExport';
+import { SHARED_GAME_SOURCE, type UrlState } from './urlState';
+
+const DB_NAME = 'famousgames3d';
+const DB_VERSION = 1;
+const STORE_NAME = 'games';
+
+// An uploaded game as it is kept in IndexedDB
+export interface StoredGame {
+  id: number;
+  name: string;
+  source: string;
+  pgn: string; // A single game, so it can be parsed on its own
+  title: string | null; // Name chosen by the user, shown instead of the players
+  labels: string[]; // The user's own tags, e.g. "endgames", kept apart from the PGN tags
+  addedAt: number;
+}
+
+export interface GameLibrary {
+  list: () => Promise<StoredGame[]>;
+  add: (games: ParsedGame[]) => Promise<StoredGame[]>;
+  rename: (id: number, title: string | null) => Promise<StoredGame | null>;
+  setLabels: (id: number, labels: string[]) => Promise<StoredGame | null>;
+  remove: (id: number) => Promise<void>;
+  close: () => void;
+}
+
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Trim, drop empties and duplicates from a list of labels typed by the user
+export function normalizeLabels(labels: string[]): string[] {
+  const seen = new Set<string>();
+  return labels
+    .map((label) => label.trim())
+    .filter((label) => {
+      const key = label.toLowerCase();
+      if (!label || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+// Identifies a game in the game list; uploaded names repeat when a file is loaded twice
+export function getGameKey(game: ParsedGame): string {
+  return game.libraryId !== undefined ? `library:${game.libraryId}` : game.name;
+}
+
+// The game a link names by key. Upload keys only mean something in the browser that made the
+// link, so a link that carries its own PGN can only name a bundled game. Games opened from
+// earlier links never match, since every link names them alike.
+export function findLinkedGame(
+  state: UrlState,
+  gameList: ParsedGame[],
+  bundled: ParsedGame[]
+): ParsedGame | null {
+  if (!state.game) return null;
+  const candidates = state.pgn
+    ? bundled
+    : gameList.filter((game) => game.source !== SHARED_GAME_SOURCE);
+  return candidates.find((game) => getGameKey(game) === state.game) ?? null;
+}
+
+// What the game list shows for a game: the user's name for it, or the players
+export function getGameTitle(game: ParsedGame): string {
+  if (game.title) return game.title;
+  return `${game.parsed.tags?.White || 'Unknown'} Vs. ${game.parsed.tags?.Black || 'Unknown'}`;
+}
+
+// Rebuild a playable game from its stored record, or null if the PGN no longer parses
+export function toParsedGame(stored: StoredGame): ParsedGame | null {
+  try {
+    const [game] = parseGames(stored.source, stored.pgn);
+    if (!game) return null;
+    return {
+      ...game,
+      name: stored.name,
+      libraryId: stored.id,
+      title: stored.title ?? undefined,
+      labels: stored.labels,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Opens (and on first use creates) the game store. Pass another IDBFactory, e.g. from
+// fake-indexeddb, to run against something other than the browser's database.
+export async function openGameLibrary(
+  factory: IDBFactory = indexedDB,
+  dbName = DB_NAME
+): Promise<GameLibrary> {
+  const openRequest = factory.open(dbName, DB_VERSION);
+  openRequest.onupgradeneeded = () => {
+    openRequest.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+  };
+  const db = await toPromise(openRequest);
+
+  const list = async () => {
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    return (await toPromise(store.getAll())) as StoredGame[];
+  };
+
+  const add = async (games: ParsedGame[]) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const done = transactionDone(transaction);
+    const store = transaction.objectStore(STORE_NAME);
+    const addedAt = Date.now();
+    const records = games.map((game) => ({
+      name: game.name,
+      source: game.source,
+      // When a file could not be split, every game carries the whole file; write each one out
+      pgn: games.some((other) => other !== game && other.pgn === game.pgn)
+        ? gameToPgn(game.parsed)
+        : game.pgn,
+      title: game.title ?? null,
+      labels: game.labels ?? [],
+      addedAt,
+    }));
+    const ids = await Promise.all(records.map((record) => toPromise(store.add(record))));
+    await done;
+    return records.map((record, i) => ({ ...record, id: ids[i] as number }));
+  };
+
+  const update = async (id: number, change: Partial<StoredGame>) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const done = transactionDone(transaction);
+    const store = transaction.objectStore(STORE_NAME);
+    const stored = (await toPromise(store.get(id))) as StoredGame | undefined;
+    const updated = stored ? { ...stored, ...change } : null;
+    if (updated) store.put(updated);
+    await done;
+    return updated;
+  };
+
+  const rename = (id: number, title: string | null) => update(id, { title: title?.trim() || null });
+
+  const setLabels = (id: number, labels: string[]) =>
+    update(id, { labels: normalizeLabels(labels) });
+
+  const remove = async (id: number) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).delete(id);
+    await transactionDone(transaction);
+  };
+
+  return { list, add, rename, setLabels, remove, close: () => db.close() };
+}
@@ -0,0 +1,229 @@
+// A small animated GIF writer for recorded clips. Colors are mapped to a fixed 6x7x6 color
+// cube, so every frame shares one palette, and each frame only stores the rectangle that
+// changed since the one before it.
+
+const RED_LEVELS = 6;
+const GREEN_LEVELS = 7;
+const BLUE_LEVELS = 6;
+const MIN_CODE_SIZE = 8;
+const MAX_CODES = 4096;
+
+export interface GifEncoder {
+  // RGBA pixels of a full frame, row by row, as from ImageData
+  addFrame: (pixels: Uint8ClampedArray) => void;
+  finish: () => Uint8Array<ArrayBuffer>;
+}
+
+interface PendingFrame {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  indices: Uint8Array;
+  delay: number; // centiseconds
+}
+
+interface ByteWriter {
+  write: (...values: number[]) => void;
+  writeBytes: (values: Uint8Array) => void;
+  bytes: () => Uint8Array<ArrayBuffer>;
+}
+
+// Growable byte buffer; clips run to megabytes, too many for a plain array
+function createByteWriter(): ByteWriter {
+  let buffer = new Uint8Array(1 << 16);
+  let length = 0;
+  const reserve = (count: number) => {
+    if (length + count <= buffer.length) return;
+    const grown = new Uint8Array(Math.max(buffer.length * 2, length + count));
+    grown.set(buffer.subarray(0, length));
+    buffer = grown;
+  };
+  return {
+    write: (...values) => {
+      reserve(values.length);
+      buffer.set(values, length);
+      length += values.length;
+    },
+    writeBytes: (values) => {
+      reserve(values.length);
+      buffer.set(values, length);
+      length += values.length;
+    },
+    bytes: () => buffer.slice(0, length),
+  };
+}
+
+// Palette entry for a pixel; green gets the extra level since the eye is most sensitive to it
+export function toPaletteIndex(r: number, g: number, b: number): number {
+  const ri = Math.round((r * (RED_LEVELS - 1)) / 255);
+  const gi = Math.round((g * (GREEN_LEVELS - 1)) / 255);
+  const bi = Math.round((b * (BLUE_LEVELS - 1)) / 255);
+  return (ri * GREEN_LEVELS + gi) * BLUE_LEVELS + bi;
+}
+
+// The color cube as a 256-entry RGB table, padded with black
+export function createPalette(): Uint8Array {
+  const palette = new Uint8Array(256 * 3);
+  for (let r = 0; r < RED_LEVELS; r++) {
+    for (let g = 0; g < GREEN_LEVELS; g++) {
+      for (let b = 0; b < BLUE_LEVELS; b++) {
+        const i = ((r * GREEN_LEVELS + g) * BLUE_LEVELS + b) * 3;
+        palette[i] = Math.round((r * 255) / (RED_LEVELS - 1));
+        palette[i + 1] = Math.round((g * 255) / (GREEN_LEVELS - 1));
+        palette[i + 2] = Math.round((b * 255) / (BLUE_LEVELS - 1));
+      }
+    }
+  }
+  return palette;
+}
+
+// Variable-width LZW as GIF image data uses it, codes packed least significant bit first
+export function lzwEncode(
+  indices: Uint8Array,
+  minCodeSize: number = MIN_CODE_SIZE
+): Uint8Array<ArrayBuffer> {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out = createByteWriter();
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  let buffer = 0;
+  let bits = 0;
+
+  const emit = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      out.write(buffer & 0xff);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = prefix * 256 + indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODES) {
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      // The decoder widens its codes one entry behind, so widen before adding this one
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bits > 0) out.write(buffer & 0xff);
+  return out.bytes();
+}
+
+export function createGifEncoder(width: number, height: number, fps: number): GifEncoder {
+  const { write, writeBytes, bytes } = createByteWriter();
+  let previous: Uint8Array | null = null;
+  let pending: PendingFrame | null = null;
+  let frameCount = 0;
+
+  const writeShort = (value: number) => write(value & 0xff, (value >> 8) & 0xff);
+  const writeText = (text: string) => write(...Array.from(text, (c) => c.charCodeAt(0)));
+
+  writeText('GIF89a');
+  writeShort(width);
+  writeShort(height);
+  write(0xf7, 0, 0); // Global 256-color table, background color 0, square pixels
+  writeBytes(createPalette());
+  // Loop forever
+  write(0x21, 0xff, 0x0b);
+  writeText('NETSCAPE2.0');
+  write(0x03, 0x01);
+  writeShort(0);
+  write(0x00);
+
+  const writeFrame = (frame: PendingFrame) => {
+    // Graphic control: keep the previous frame under this one, no transparency
+    write(0x21, 0xf9, 0x04, 0x04);
+    writeShort(frame.delay);
+    write(0x00, 0x00);
+    write(0x2c);
+    writeShort(frame.left);
+    writeShort(frame.top);
+    writeShort(frame.width);
+    writeShort(frame.height);
+    write(0x00, MIN_CODE_SIZE);
+    const data = lzwEncode(frame.indices);
+    for (let i = 0; i < data.length; i += 255) {
+      const block = data.subarray(i, i + 255);
+      write(block.length);
+      writeBytes(block);
+    }
+    write(0x00);
+  };
+
+  // Frame n lasts until frame n + 1 is due; rounding the due times keeps the clip in step
+  const frameDelay = (n: number) => Math.round((100 * (n + 1)) / fps) - Math.round((100 * n) / fps);
+
+  const addFrame = (pixels: Uint8ClampedArray) => {
+    const indices = new Uint8Array(width * height);
+    for (let i = 0; i < indices.length; i++) {
+      indices[i] = toPaletteIndex(pixels[i * 4], pixels[i * 4 + 1], pixels[i * 4 + 2]);
+    }
+    const delay = frameDelay(frameCount++);
+
+    // Only the part that changed is stored; an unchanged frame just holds the last one longer
+    let left = 0;
+    let top = 0;
+    let right = width - 1;
+    let bottom = height - 1;
+    if (previous) {
+      left = width;
+      top = height;
+      right = -1;
+      bottom = -1;
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const i = y * width + x;
+          if (indices[i] === previous[i]) continue;
+          left = Math.min(left, x);
+          right = Math.max(right, x);
+          top = Math.min(top, y);
+          bottom = Math.max(bottom, y);
+        }
+      }
+    }
+    previous = indices;
+    if (right < 0 && pending) {
+      pending.delay += delay;
+      return;
+    }
+    if (pending) writeFrame(pending);
+    const rectWidth = right - left + 1;
+    const rectHeight = bottom - top + 1;
+    const rect = new Uint8Array(rectWidth * rectHeight);
+    for (let y = 0; y < rectHeight; y++) {
+      const start = (top + y) * width + left;
+      rect.set(indices.subarray(start, start + rectWidth), y * rectWidth);
+    }
+    pending = { left, top, width: rectWidth, height: rectHeight, indices: rect, delay };
+  };
+
+  const finish = () => {
+    if (pending) writeFrame(pending);
+    pending = null;
+    write(0x3b);
+    return bytes();
+  };
+
+  return { addFrame, finish };
+}
@@ -1,5 +1,14 @@
+import type { Chess } from 'chess.js';
 import { SQUARE_SIZE, BOARD_SIZE, TABLE_TOP_Y, BEVEL_SIZE } from './scene/sceneBuilder';
 
+export interface CapturedPiece {
+  type: string;
+  color: 'w' | 'b';
+}
+
+// Piece counts of a standard set, per color
+const STANDARD_SET: Record<string, number> = { p: 8, n: 2, b: 2, r: 2, q: 1, k: 1 };
+
 export function getGraveyardPosition(
   isBlack: boolean,
   captureIndex: number
@@ -16,3 +25,29 @@ export function getGraveyardPosition(
 
   return { x, y, z };
 }
+
+// Material missing from a position relative to two standard sets, e.g. for games
+// that start from a FEN. Extra minor/major pieces are assumed to be promoted pawns.
+export function getMissingMaterial(chess: Chess): CapturedPiece[] {
+  const missing: CapturedPiece[] = [];
+  for (const color of ['w', 'b'] as const) {
+    const counts: Record<string, number> = { p: 0, n: 0, b: 0, r: 0, q: 0, k: 0 };
+    chess.board().forEach((rank) =>
+      rank.forEach((square) => {
+        if (square && square.color === color) counts[square.type]++;
+      })
+    );
+    let promoted = 0;
+    for (const type of ['q', 'r', 'b', 'n', 'p']) {
+      if (type === 'p') {
+        counts.p += promoted;
+      } else {
+        promoted += Math.max(0, counts[type] - STANDARD_SET[type]);
+      }
+      for (let i = counts[type]; i < STANDARD_SET[type]; i++) {
+        missing.push({ type, color });
+      }
+    }
+  }
+  return missing;
+}
@@ -0,0 +1,71 @@
+import type { Chess, Square } from 'chess.js';
+import { MARK_COLORS, type MarkColor } from './arrowUtils';
+
+export type SquareHighlight =
+  | 'from'
+  | 'to'
+  | 'check'
+  | 'checkmate'
+  | 'selected'
+  | 'destination'
+  | MarkColor;
+
+// Squares to mark for a position: where the last move came from and went to, and the
+// king of the side to move when it is in check. The king's mark wins over a move mark.
+export function getSquareHighlights(chess: Chess): Map<Square, SquareHighlight> {
+  const highlights = new Map<Square, SquareHighlight>();
+  const lastMove = chess.history({ verbose: true }).at(-1);
+  if (lastMove) {
+    highlights.set(lastMove.from, 'from');
+    highlights.set(lastMove.to, 'to');
+  }
+  if (chess.inCheck()) {
+    const [kingSquare] = chess.findPiece({ type: 'k', color: chess.turn() });
+    if (kingSquare) {
+      highlights.set(kingSquare, chess.isCheckmate() ? 'checkmate' : 'check');
+    }
+  }
+  return highlights;
+}
+
+// Squares a piece of the side to move can legally move to
+export function getLegalTargets(chess: Chess, square: Square): Square[] {
+  const piece = chess.get(square);
+  if (!piece || piece.color !== chess.turn()) return [];
+  const targets = chess.moves({ square, verbose: true }).map((move) => move.to);
+  return [...new Set(targets)];
+}
+
+// Colored squares from a [%csl] annotation, e.g. ["Rd4", "Ge5"]
+export function parseColorFields(codes: string[] | undefined): Map<Square, MarkColor> {
+  const marks = new Map<Square, MarkColor>();
+  for (const code of codes ?? []) {
+    const match = /^([RGBY])([a-h][1-8])$/.exec(code.trim());
+    if (match) marks.set(match[2] as Square, MARK_COLORS[match[1] as keyof typeof MARK_COLORS]);
+  }
+  return marks;
+}
+
+// Annotated squares take the place of last-move marks, but not of a check or a selection
+export function addMarks(
+  highlights: Map<Square, SquareHighlight>,
+  marks: Map<Square, MarkColor>
+): Map<Square, SquareHighlight> {
+  marks.forEach((mark, square) => {
+    const current = highlights.get(square);
+    if (!current || current === 'from' || current === 'to') highlights.set(square, mark);
+  });
+  return highlights;
+}
+
+// Position highlights with a picked piece and its legal destinations marked on top
+export function getSelectionHighlights(
+  chess: Chess,
+  square: Square | null
+): Map<Square, SquareHighlight> {
+  const highlights = getSquareHighlights(chess);
+  if (!square) return highlights;
+  highlights.set(square, 'selected');
+  getLegalTargets(chess, square).forEach((target) => highlights.set(target, 'destination'));
+  return highlights;
+}
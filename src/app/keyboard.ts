@@ -0,0 +1,62 @@
+import { CAMERA_VIEW_NAMES, CAMERA_VIEWS, type CameraViewName } from './cameraViews';
+
+export type ShortcutAction =
+  | { type: 'stepForward' }
+  | { type: 'stepBack' }
+  | { type: 'togglePlay' }
+  | { type: 'reset' }
+  | { type: 'end' }
+  | { type: 'flip' }
+  | { type: 'view'; view: CameraViewName };
+
+// The parts of a keydown event that decide the shortcut
+export interface ShortcutKey {
+  key: string;
+  ctrlKey?: boolean;
+  metaKey?: boolean;
+  altKey?: boolean;
+  target?: { tagName?: string; isContentEditable?: boolean } | null;
+}
+
+// Shortcuts listed for the help text, in the order they are shown
+export const SHORTCUT_HELP: [string, string][] = [
+  ['← →', 'Step back / forward'],
+  ['Space', 'Play / pause'],
+  ['Home / End', 'First / last move'],
+  ['F', 'Flip the board'],
+  ...CAMERA_VIEW_NAMES.map((view, i): [string, string] => [
+    String(i + 1),
+    CAMERA_VIEWS[view].label,
+  ]),
+];
+
+// Controls that need these keys for themselves: typing, choosing from a list, pressing a button
+const KEY_OWNERS = ['INPUT', 'TEXTAREA', 'SELECT'];
+const BUTTONS = ['BUTTON', 'A'];
+
+// The playback action for a key press, or null if the key should be left to the page
+export function getShortcutAction(event: ShortcutKey): ShortcutAction | null {
+  if (event.ctrlKey || event.metaKey || event.altKey) return null;
+  const tag = event.target?.tagName?.toUpperCase() ?? '';
+  if (KEY_OWNERS.includes(tag) || event.target?.isContentEditable) return null;
+  // Space presses a focused button or link; leave it to them
+  if (event.key === ' ' && BUTTONS.includes(tag)) return null;
+
+  switch (event.key) {
+    case 'ArrowRight':
+      return { type: 'stepForward' };
+    case 'ArrowLeft':
+      return { type: 'stepBack' };
+    case ' ':
+      return { type: 'togglePlay' };
+    case 'Home':
+      return { type: 'reset' };
+    case 'End':
+      return { type: 'end' };
+    case 'f':
+    case 'F':
+      return { type: 'flip' };
+  }
+  const view = CAMERA_VIEW_NAMES[parseInt(event.key, 10) - 1];
+  return /^\d$/.test(event.key) && view ? { type: 'view', view } : null;
+}
@@ -1,13 +1,30 @@
 import * as THREE from 'three';
 
-export function buildLights(): THREE.Light[] {
+// Color and strength of the lights; the layout of the lights stays the same for every theme
+export interface LightRig {
+  color: number;
+  ambient: number;
+  overhead: number; // The shadow-casting light above the table
+  sides: number; // Each of the four low lights around the table
+  exposure: number; // Tone mapping exposure of the renderer
+}
+
+// Set the rig on lights in the order buildLights returns them
+export function applyLightRig(lights: THREE.Light[], rig: LightRig): void {
+  const [ambient, overhead, ...sides] = lights;
+  ambient.intensity = rig.ambient * Math.PI;
+  overhead.intensity = rig.overhead * Math.PI;
+  sides.forEach((light) => (light.intensity = rig.sides * Math.PI));
+  lights.forEach((light) => light.color.setHex(rig.color));
+}
+
+export function buildLights(rig: LightRig): THREE.Light[] {
   const lights: THREE.Light[] = [];
 
-  const ambientLight = new THREE.AmbientLight(0xffffff, 0.18);
-  ambientLight.intensity *= Math.PI;
+  const ambientLight = new THREE.AmbientLight();
 
   // Overhead light — angled from above to cast piece shadows onto the board and table
-  const overhead = new THREE.DirectionalLight(0xffffff, 0.2);
+  const overhead = new THREE.DirectionalLight();
   overhead.position.set(5, 15, 8);
   overhead.castShadow = true;
   overhead.shadow.mapSize.set(4096, 4096);
@@ -19,17 +36,14 @@ export function buildLights(): THREE.Light[] {
   overhead.shadow.camera.bottom = -12;
   overhead.shadow.bias = -0.001;
   overhead.shadow.radius = 4;
-  overhead.intensity *= Math.PI;
 
-  const directionalBlackLeft = new THREE.DirectionalLight(0xffffff, 0.1);
+  const directionalBlackLeft = new THREE.DirectionalLight();
   directionalBlackLeft.position.set(20, 0, 0);
-  directionalBlackLeft.intensity *= Math.PI;
 
-  const directionalLightWhiteLeft = new THREE.DirectionalLight(0xffffff, 0.1);
+  const directionalLightWhiteLeft = new THREE.DirectionalLight();
   directionalLightWhiteLeft.position.set(-20, 0, 0);
-  directionalLightWhiteLeft.intensity *= Math.PI;
 
-  const directionalBlackSide = new THREE.DirectionalLight(0xffffff, 0.1);
+  const directionalBlackSide = new THREE.DirectionalLight();
   directionalBlackSide.position.set(0, 0, -20);
   directionalBlackSide.castShadow = true;
   directionalBlackSide.shadow.mapSize.set(2048, 2048);
@@ -41,9 +55,8 @@ export function buildLights(): THREE.Light[] {
   directionalBlackSide.shadow.camera.bottom = -15;
   directionalBlackSide.shadow.bias = -0.001;
   directionalBlackSide.shadow.radius = 4;
-  directionalBlackSide.intensity *= Math.PI;
 
-  const directionalLightWhiteSide = new THREE.DirectionalLight(0xffffff, 0.1);
+  const directionalLightWhiteSide = new THREE.DirectionalLight();
   directionalLightWhiteSide.position.set(0, 0, 20);
   // directionalLightWhiteSide.castShadow = true;
   // directionalLightWhiteSide.shadow.mapSize.set(2048, 2048);
@@ -55,7 +68,6 @@ export function buildLights(): THREE.Light[] {
   directionalLightWhiteSide.shadow.camera.bottom = -15;
   directionalLightWhiteSide.shadow.bias = -0.001;
   directionalLightWhiteSide.shadow.radius = 4;
-  directionalLightWhiteSide.intensity *= Math.PI;
 
   lights.push(ambientLight);
   lights.push(overhead);
@@ -65,5 +77,6 @@ export function buildLights(): THREE.Light[] {
   lights.push(directionalBlackSide);
   lights.push(directionalLightWhiteSide);
 
+  applyLightRig(lights, rig);
   return lights;
 }
@@ -1,11 +1,6 @@
 import * as THREE from 'three';
 
-// Colors
-export const WHITE_PIECE_COLOR = 0xfff0d8; // Ivory tint
-export const BLACK_PIECE_COLOR = 0xbe8585; // Lighter warm gray with faint red tint
-export const SCENE_BACKGROUND_COLOR = 0x0d0705; // Blended dark
-export const SCENE_BACKGROUND_COLOR_2 = 0xa3886e; // Blended warm beige
-
+// Colors; pieces, squares, chairs and the background come from the theme (see themes.ts)
 const LABEL_TEXT_COLOR = '#aa7700';
 
 const BOARD_BASE_TINT = 0xffbbaa;
@@ -15,10 +10,6 @@ const FLOOR_TINT = 0xffffff;
 const WATER_TINT = 0x1a6e8a;
 const FLOOR_MAT_TINT = 0xe5a69a;
 const TABLE_TINT = 0xd8d0c8;
-export const LIGHT_SQUARE_TINT = 0xffffff;
-export const DARK_SQUARE_TINT = 0xccccee;
-export const WHITE_CHAIR_TINT = 0xf5f5f5;
-export const BLACK_CHAIR_TINT = 0x625a52;
 
 export const materialsToDispose: THREE.Material[] = [];
 export const texturesToDispose: THREE.Texture[] = [];
@@ -45,9 +36,19 @@ export interface LoadedTextures {
   stone: THREE.Texture;
 }
 
-// Load all textures
-export function loadTextures(): LoadedTextures {
-  const loader = new THREE.TextureLoader();
+export type TextureName = keyof LoadedTextures;
+
+// How a themed surface looks: a tint over one of the loaded textures, or a plain color
+export interface SurfaceStyle {
+  color: number;
+  texture: TextureName | null;
+  metalness: number;
+  roughness: number;
+}
+
+// Load all textures; a texture that fails to load leaves its surfaces plain
+export function loadTextures(manager?: THREE.LoadingManager): LoadedTextures {
+  const loader = new THREE.TextureLoader(manager);
   const lightWood = loader.load(TEXTURE_PATHS.lightWood);
   lightWood.wrapS = THREE.RepeatWrapping;
   lightWood.wrapT = THREE.RepeatWrapping;
@@ -121,29 +122,51 @@ export function createTextTexture(text: string): THREE.CanvasTexture {
 }
 
 export function createRandomizedPieceMaterial(
-  color: number,
-  texture?: THREE.Texture
+  style: SurfaceStyle,
+  textures: LoadedTextures
 ): THREE.MeshStandardMaterial {
-  let map = texture;
-  if (texture) {
-    map = texture.clone();
-    map.center.set(0.5, 0.5);
-    map.rotation = Math.random() * Math.PI * 2;
-    map.needsUpdate = false;
-  }
-  const material = new THREE.MeshStandardMaterial({
-    color,
-    map,
-    metalness: 0.05,
-    roughness: 0.35,
-    transparent: false,
-    opacity: 1,
-  });
+  const material = new THREE.MeshStandardMaterial({ transparent: false, opacity: 1 });
+  applySurfaceStyle(material, style, textures);
   materialsToDispose.push(material);
-  texturesToDispose.push(map!);
   return material;
 }
 
+// Restyle a material in place. A texture is placed like the one it replaces, so every square
+// and piece keeps its own grain; a surface gaining a texture gets a random turn.
+export function applySurfaceStyle(
+  material: THREE.MeshStandardMaterial,
+  style: SurfaceStyle,
+  textures: LoadedTextures
+): void {
+  const previous = material.map;
+  let map: THREE.Texture | null = null;
+  if (style.texture) {
+    map = textures[style.texture].clone();
+    if (previous) {
+      map.center.copy(previous.center);
+      map.rotation = previous.rotation;
+      map.offset.copy(previous.offset);
+    } else {
+      map.center.set(0.5, 0.5);
+      map.rotation = Math.random() * Math.PI * 2;
+    }
+    map.needsUpdate = false;
+    texturesToDispose.push(map);
+  }
+  // The loaded textures themselves are shared, only clones belong to the material
+  if (previous && !Object.values(textures).includes(previous)) {
+    previous.dispose();
+    const index = texturesToDispose.indexOf(previous);
+    if (index !== -1) texturesToDispose.splice(index, 1);
+  }
+  material.map = map;
+  material.color.setHex(style.color);
+  material.metalness = style.metalness;
+  material.roughness = style.roughness;
+  // Gaining or losing a map changes the shader
+  material.needsUpdate = true;
+}
+
 // Create base material
 export function createBaseMaterial(textures: LoadedTextures): THREE.MeshStandardMaterial {
   const rotatedTexture = textures.redWood.clone();
@@ -179,6 +202,21 @@ export function createGradientBackground(
   const canvas = document.createElement('canvas');
   canvas.width = 2;
   canvas.height = 512;
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texturesToDispose.push(texture);
+  paintGradientBackground(texture, topColor, bottomColor);
+  texture.needsUpdate = false;
+  return texture;
+}
+
+// Redraw a gradient background in new colors
+export function paintGradientBackground(
+  texture: THREE.CanvasTexture,
+  topColor: number,
+  bottomColor: number
+): void {
+  const canvas = texture.image as HTMLCanvasElement;
   const ctx = canvas.getContext('2d')!;
 
   const topColorStr = '#' + topColor.toString(16).padStart(6, '0');
@@ -190,11 +228,7 @@ export function createGradientBackground(
 
   ctx.fillStyle = gradient;
   ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-  const texture = new THREE.CanvasTexture(canvas);
-  texturesToDispose.push(texture);
-  texture.needsUpdate = false;
-  return texture;
+  texture.needsUpdate = true;
 }
 
 export function createMoldingMaterial(texture: THREE.Texture): THREE.MeshStandardMaterial {
@@ -209,23 +243,34 @@ export function createMoldingMaterial(texture: THREE.Texture): THREE.MeshStandar
   return moldingMaterial;
 }
 
-export function createRandomizedSquareMaterial(texture: THREE.Texture, color: number) {
-  const rotatedTexture = texture.clone();
-  rotatedTexture.center.set(0.5, 0.5);
-  rotatedTexture.rotation = Math.random() * Math.PI * 2;
-  rotatedTexture.offset.set(Math.random(), Math.random());
-  rotatedTexture.needsUpdate = false;
-  const material = new THREE.MeshStandardMaterial({
-    map: rotatedTexture,
-    color: color,
-    metalness: 0.05,
-    roughness: 0.7,
-  });
+export function createRandomizedSquareMaterial(style: SurfaceStyle, textures: LoadedTextures) {
+  const material = new THREE.MeshStandardMaterial();
+  if (style.texture) {
+    // Start each square somewhere else in the texture; restyling keeps the placement
+    material.map = textures[style.texture].clone();
+    material.map.center.set(0.5, 0.5);
+    material.map.rotation = Math.random() * Math.PI * 2;
+    material.map.offset.set(Math.random(), Math.random());
+  }
+  applySurfaceStyle(material, style, textures);
   materialsToDispose.push(material);
-  texturesToDispose.push(rotatedTexture);
   return material;
 }
 
+export function createArrowMaterial(color: number): THREE.MeshStandardMaterial {
+  const mat = new THREE.MeshStandardMaterial({
+    color,
+    emissive: color,
+    emissiveIntensity: 0.4,
+    metalness: 0.1,
+    roughness: 0.5,
+    transparent: true,
+    opacity: 0.8,
+  });
+  materialsToDispose.push(mat);
+  return mat;
+}
+
 export function createCrownMaterial(clipPlane?: THREE.Plane) {
   const mat = new THREE.MeshStandardMaterial({
     color: CROWN_TINT,
@@ -366,21 +411,13 @@ export function createPedestalMaterial(loadedTextures: LoadedTextures): THREE.Me
 }
 
 export function createChairMaterial(
-  color: number,
-  texture: THREE.Texture
+  style: SurfaceStyle,
+  textures: LoadedTextures
 ): THREE.MeshStandardMaterial {
-  const chairTexture = texture.clone();
-  chairTexture.repeat.set(chairTexture.repeat.x * 0.125, chairTexture.repeat.y * 0.125);
-  chairTexture.center.set(0.5, 0.5);
-  chairTexture.rotation = Math.PI / 4;
-  chairTexture.needsUpdate = false;
-  texturesToDispose.push(chairTexture);
-  const mat = new THREE.MeshStandardMaterial({
-    color,
-    map: texture,
-    metalness: 0.05,
-    roughness: 0.4,
-  });
+  const mat = new THREE.MeshStandardMaterial();
+  // The chair has always used the shared texture as is
+  if (style.texture) mat.map = textures[style.texture];
+  applySurfaceStyle(mat, style, textures);
   materialsToDispose.push(mat);
   return mat;
 }
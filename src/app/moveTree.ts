@@ -0,0 +1,184 @@
+import { Chess, type Move } from 'chess.js';
+import type { ParseTree } from '@mliebelt/pgn-parser';
+
+export type PgnMove = ParseTree['moves'][number];
+
+// A line of play through the move tree. The main line has no parent; a variation
+// shares its parent's moves up to branchIndex and then follows the side line.
+export interface MoveLine {
+  moves: PgnMove[];
+  parent: MoveLine | null;
+  branchIndex: number;
+  // Set on lines the user played on the board rather than ones recorded in the PGN
+  userBranch?: boolean;
+}
+
+export function createMainLine(tree: ParseTree | undefined): MoveLine {
+  return { moves: tree?.moves ?? [], parent: null, branchIndex: -1 };
+}
+
+// Alternatives recorded in the PGN for the move at the given index of a line
+export function getVariations(line: MoveLine, index: number): PgnMove[][] {
+  const move = line.moves[index];
+  if (!move?.variations) return [];
+  return move.variations.filter((variation) => variation.length > 0);
+}
+
+// Follow a side line instead of the move at `index`; the position before `index` is shared
+export function enterVariation(line: MoveLine, index: number, variationIndex: number): MoveLine {
+  const variation = getVariations(line, index)[variationIndex];
+  if (!variation) return line;
+  return {
+    moves: [...line.moves.slice(0, index), ...variation],
+    parent: line,
+    branchIndex: index,
+  };
+}
+
+// Return to the parent line, positioned just before the point where the variation branched off
+export function exitVariation(line: MoveLine): { line: MoveLine; moveIndex: number } | null {
+  if (!line.parent) return null;
+  return { line: line.parent, moveIndex: line.branchIndex - 1 };
+}
+
+export function getMainLine(line: MoveLine): MoveLine {
+  let current = line;
+  while (current.parent) {
+    current = current.parent;
+  }
+  return current;
+}
+
+export function getVariationDepth(line: MoveLine): number {
+  let depth = 0;
+  let current = line;
+  while (current.parent) {
+    depth++;
+    current = current.parent;
+  }
+  return depth;
+}
+
+// True when the first `count` moves of both lists are the same moves, i.e. they reach the same position
+export function sharesPrefix(a: PgnMove[], b: PgnMove[], count: number): boolean {
+  if (a.length < count || b.length < count) return false;
+  for (let i = 0; i < count; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+// Replay a line from a starting position, returning chess.js move details up to the first illegal move
+export function playMoves(start: Chess, moves: PgnMove[]): Move[] {
+  const chess = new Chess(start.fen());
+  const played: Move[] = [];
+  for (const move of moves) {
+    try {
+      played.push(chess.move(move.notation.notation));
+    } catch {
+      break;
+    }
+  }
+  return played;
+}
+
+// A move played on the board, shaped like the parser's moves so it can join a line
+export function createUserMove(move: Move): PgnMove {
+  return {
+    drawOffer: false,
+    moveNumber: parseInt(move.before.split(' ')[5], 10),
+    notation: {
+      fig: move.piece === 'p' ? null : move.piece.toUpperCase(),
+      strike: move.captured ? 'x' : null,
+      col: move.to[0],
+      row: move.to[1],
+      check: /[+#]$/.test(move.san) ? move.san.slice(-1) : undefined,
+      promotion: move.promotion ? `=${move.promotion.toUpperCase()}` : null,
+      notation: move.san,
+    },
+    variations: [],
+    nag: [],
+    commentDiag: {},
+    turn: move.color,
+  };
+}
+
+// The line to follow after the user plays `move` from the position after `index`. A move
+// the line or one of its variations already has is followed; anything else starts (or
+// extends) a user branch off the nearest recorded line.
+export function playUserMove(line: MoveLine, index: number, move: PgnMove): MoveLine {
+  // Before the user branch split off, the position belongs to the line it came from
+  if (line.userBranch && line.parent && index + 1 < line.branchIndex) {
+    return playUserMove(line.parent, index, move);
+  }
+  const san = move.notation.notation;
+  const next = line.moves[index + 1];
+  if (next?.notation.notation === san) return line;
+  const variationIndex = getVariations(line, index + 1).findIndex(
+    (variation) => variation[0].notation.notation === san
+  );
+  if (variationIndex >= 0) return enterVariation(line, index + 1, variationIndex);
+
+  const moves = [...line.moves.slice(0, index + 1), move];
+  if (line.userBranch && line.parent) {
+    return {
+      moves,
+      parent: line.parent,
+      branchIndex: line.branchIndex,
+      userBranch: true,
+    };
+  }
+  return { moves, parent: line, branchIndex: index + 1, userBranch: true };
+}
+
+// Copy of a move list with the list that holds `target` (at any variation depth)
+// rewritten by `update`, or null when the move is not in the tree
+function updateListOf(
+  moves: PgnMove[],
+  target: PgnMove,
+  update: (list: PgnMove[]) => PgnMove[]
+): PgnMove[] | null {
+  if (moves.includes(target)) return update(moves);
+  for (let i = 0; i < moves.length; i++) {
+    const variations = moves[i].variations ?? [];
+    for (let v = 0; v < variations.length; v++) {
+      const updated = updateListOf(variations[v], target, update);
+      if (!updated) continue;
+      const move = { ...moves[i], variations: variations.map((x, j) => (j === v ? updated : x)) };
+      return moves.map((m, j) => (j === i ? move : m));
+    }
+  }
+  return null;
+}
+
+// The game tree with a user branch recorded as a new variation where it left its parent
+// line, or as a continuation when it carries on past the parent's last move
+export function withUserLine(tree: ParseTree, line: MoveLine): ParseTree {
+  if (!line.userBranch || !line.parent) return tree;
+  const played = line.moves.slice(line.branchIndex);
+  const replaced = line.parent.moves[line.branchIndex];
+  const previous = line.parent.moves[line.branchIndex - 1];
+  let moves: PgnMove[] | null = played;
+  if (replaced) {
+    moves = updateListOf(tree.moves, replaced, (list) =>
+      list.map((m) =>
+        m === replaced ? { ...m, variations: [...(m.variations ?? []), played] } : m
+      )
+    );
+  } else if (previous) {
+    moves = updateListOf(tree.moves, previous, (list) => [...list, ...played]);
+  }
+  return { ...tree, moves: moves ?? tree.moves };
+}
+
+// The last main-line move on the way to `index` of a line: where a link to the position
+// can point, since links only follow the main line
+export function getMainLineIndex(line: MoveLine, index: number): number {
+  let current = line;
+  let mainIndex = index;
+  while (current.parent) {
+    mainIndex = Math.min(mainIndex, current.branchIndex - 1);
+    current = current.parent;
+  }
+  return mainIndex;
+}
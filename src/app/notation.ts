@@ -0,0 +1,100 @@
+import type { Move, PieceSymbol } from 'chess.js';
+import type { PgnMove } from './moveTree';
+
+// Common Numeric Annotation Glyphs and their printed symbols
+const NAG_SYMBOLS: Record<string, string> = {
+  $1: '!',
+  $2: '?',
+  $3: '!!',
+  $4: '??',
+  $5: '!?',
+  $6: '?!',
+  $7: '□',
+  $10: '=',
+  $13: '∞',
+  $14: '⩲',
+  $15: '⩱',
+  $16: '±',
+  $17: '∓',
+  $18: '+-',
+  $19: '-+',
+  $22: '⨀',
+  $23: '⨀',
+  $32: '⟳',
+  $33: '⟳',
+  $36: '→',
+  $37: '→',
+  $40: '↑',
+  $41: '↑',
+  $132: '⇆',
+  $133: '⇆',
+  $140: '∆',
+  $146: 'N',
+};
+
+export function nagToSymbol(nag: string): string {
+  return NAG_SYMBOLS[nag] ?? nag;
+}
+
+export function getNagSymbols(move: PgnMove): string {
+  return (move.nag ?? []).map(nagToSymbol).join('');
+}
+
+// Move number prefix for a move in a line, e.g. "12." for white or "12..." for black.
+// Black moves only get a prefix at the start of a line or after a comment.
+export function getMoveNumberLabel(
+  index: number,
+  startTurn: 'w' | 'b',
+  startMoveNumber: number,
+  forceBlackNumber: boolean = false
+): string {
+  const ply = index + (startTurn === 'b' ? 1 : 0);
+  const moveNumber = startMoveNumber + Math.floor(ply / 2);
+  const isWhite = ply % 2 === 0;
+  if (isWhite) return `${moveNumber}.`;
+  return forceBlackNumber ? `${moveNumber}...` : '';
+}
+
+// Comment text shown after a move
+export function getMoveComment(move: PgnMove): string {
+  return (move.commentAfter ?? '').trim();
+}
+
+const READING_BASE_TIME = 1.5; // seconds to notice a caption has appeared
+const READING_TIME_PER_WORD = 0.3;
+const MAX_READING_TIME = 10;
+
+// Seconds to hold a position so its commentary can be read
+export function getReadingTime(text: string): number {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  if (!words) return 0;
+  return Math.min(READING_BASE_TIME + words * READING_TIME_PER_WORD, MAX_READING_TIME);
+}
+
+const PIECE_NAMES: Record<PieceSymbol, string> = {
+  p: 'pawn',
+  n: 'knight',
+  b: 'bishop',
+  r: 'rook',
+  q: 'queen',
+  k: 'king',
+};
+
+// Spoken form of a move for screen readers, e.g. "White knight from g1 to f3, check"
+export function describeMove(move: Move): string {
+  const side = move.color === 'w' ? 'White' : 'Black';
+  let text: string;
+  if (move.isKingsideCastle()) {
+    text = `${side} castles kingside`;
+  } else if (move.isQueensideCastle()) {
+    text = `${side} castles queenside`;
+  } else {
+    text = `${side} ${PIECE_NAMES[move.piece]} from ${move.from}`;
+    text += move.captured ? ` takes ${PIECE_NAMES[move.captured]} on ${move.to}` : ` to ${move.to}`;
+    if (move.isEnPassant()) text += ' en passant';
+    if (move.promotion) text += `, promotes to ${PIECE_NAMES[move.promotion]}`;
+  }
+  if (move.san.endsWith('#')) return `${text}, checkmate`;
+  if (move.san.endsWith('+')) return `${text}, check`;
+  return text;
+}
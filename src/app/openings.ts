@@ -0,0 +1,108 @@
+import { Chess } from 'chess.js';
+import type { ParseTree } from '@mliebelt/pgn-parser';
+import type { ParsedGame } from '../assets/games';
+import { ECO_LINES } from '../assets/openings';
+import { playMoves } from './moveTree';
+import { gameToPgn } from './pgnExport';
+import { createStartingChess, getStartingFen } from './positionUtils';
+
+export interface Opening {
+  eco: string;
+  name: string;
+}
+
+// The opening reached at each move of a line, and where the line left the table
+export interface OpeningProgress {
+  openings: (Opening | null)[]; // Latest named opening up to each move, carried forward
+  bookExitIndex: number | null; // First move out of book, or null if the line never left it
+}
+
+interface OpeningBook {
+  named: Map<string, Opening>;
+  positions: Set<string>; // Every position on the way to a named one
+}
+
+let book: OpeningBook | null = null;
+
+// FEN without the move counters, so the same position matches whatever the move order
+export function toPositionKey(fen: string): string {
+  return fen.split(' ').slice(0, 4).join(' ');
+}
+
+// Built on first use; replaying the table takes a moment and most pages never need it
+function getBook(): OpeningBook {
+  if (book) return book;
+  const named = new Map<string, Opening>();
+  const positions = new Set<string>();
+  for (const [eco, name, moves] of ECO_LINES) {
+    const chess = new Chess();
+    positions.add(toPositionKey(chess.fen()));
+    for (const san of moves.split(' ')) {
+      chess.move(san);
+      positions.add(toPositionKey(chess.fen()));
+    }
+    // The first line to reach a position names it
+    const key = toPositionKey(chess.fen());
+    if (!named.has(key)) named.set(key, { eco, name });
+  }
+  book = { named, positions };
+  return book;
+}
+
+// The named opening for a position, if the table has one
+export function findOpening(fen: string): Opening | null {
+  return getBook().named.get(toPositionKey(fen)) ?? null;
+}
+
+export function isBookPosition(fen: string): boolean {
+  return getBook().positions.has(toPositionKey(fen));
+}
+
+// Follow a line through the table given the position after each of its moves. A line
+// that leaves book and transposes back in is still in book until its last book position.
+export function trackOpenings(startFen: string, fens: string[]): OpeningProgress {
+  let current = findOpening(startFen);
+  let lastBookIndex = isBookPosition(startFen) ? -1 : null;
+  const openings = fens.map((fen, i) => {
+    current = findOpening(fen) ?? current;
+    if (isBookPosition(fen)) lastBookIndex = i;
+    return current;
+  });
+  const bookExitIndex =
+    lastBookIndex === null || lastBookIndex === fens.length - 1 ? null : lastBookIndex + 1;
+  return { openings, bookExitIndex };
+}
+
+// Opening progress along a game's main line
+export function trackGameOpenings(tree: ParseTree): OpeningProgress {
+  const moves = playMoves(createStartingChess(tree), tree.moves);
+  return trackOpenings(
+    getStartingFen(tree),
+    moves.map((move) => move.after)
+  );
+}
+
+// The deepest named opening the main line reaches
+export function detectOpening(tree: ParseTree): Opening | null {
+  const { openings } = trackGameOpenings(tree);
+  return openings[openings.length - 1] ?? findOpening(getStartingFen(tree));
+}
+
+const hasTag = (value: unknown) => typeof value === 'string' && !!value.trim() && value !== '?';
+
+// Fill in the ECO (and Opening, if also missing) of a game whose PGN leaves it out
+export function withDetectedEco(game: ParsedGame): ParsedGame {
+  const tags = game.parsed.tags;
+  if (hasTag(tags?.ECO)) return game;
+  const opening = detectOpening(game.parsed);
+  if (!opening) return game;
+  const parsed: ParseTree = {
+    ...game.parsed,
+    tags: {
+      ...tags,
+      ECO: opening.eco,
+      ...(hasTag(tags?.Opening) ? {} : { Opening: opening.name }),
+    } as ParseTree['tags'],
+  };
+  return { ...game, parsed, pgn: gameToPgn(parsed) };
+}
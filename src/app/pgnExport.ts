@@ -0,0 +1,166 @@
+import type { ParseTree } from '@mliebelt/pgn-parser';
+import type { PgnMove } from './moveTree';
+import { downloadBlob } from './download';
+import { getMoveNumberLabel } from './notation';
+import {
+  getStartingFen,
+  getStartingMoveNumber,
+  getStartingTurn,
+  isCustomStartingPosition,
+} from './positionUtils';
+
+// The Seven Tag Roster, written first and in this order; unknown values get placeholders
+const ROSTER_TAGS = ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result'];
+const ROSTER_DEFAULTS: Record<string, string> = { Date: '????.??.??', Result: '*' };
+const LINE_WIDTH = 80;
+
+type CommentDiag = NonNullable<PgnMove['commentDiag']>;
+
+// Embedded commands written back into comments, e.g. [%clk 0:01:00]
+const DIAG_COMMANDS = ['clk', 'egt', 'emt', 'mct', 'eval'] as const;
+
+// Printable value of a parsed tag; dates, times and time controls keep their original text
+export function tagValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return value.map(tagValue).join(':');
+  if (value && typeof value === 'object' && 'value' in value) return String(value.value ?? '');
+  return '';
+}
+
+function formatTags(tags: [string, string][]): string {
+  return tags
+    .map(([key, value]) => `[${key} "${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"]`)
+    .join('\n');
+}
+
+// Tags of a tree with the roster first, then the rest in their original order
+function getTags(tree: ParseTree | undefined): [string, string][] {
+  const source = (tree?.tags ?? {}) as Record<string, unknown>;
+  const tags: [string, string][] = ROSTER_TAGS.map((key) => [
+    key,
+    tagValue(source[key]) || ROSTER_DEFAULTS[key] || '?',
+  ]);
+  for (const [key, value] of Object.entries(source)) {
+    if (key === 'messages' || ROSTER_TAGS.includes(key)) continue;
+    const text = tagValue(value);
+    if (text) tags.push([key, text]);
+  }
+  return tags;
+}
+
+// Words of a brace comment; commands such as [%csl] come before the text
+function commentWords(text: string | undefined, diag?: CommentDiag | null): string[] {
+  const parts: string[] = [];
+  if (diag?.colorFields?.length) parts.push(`[%csl ${diag.colorFields.join(',')}]`);
+  if (diag?.colorArrows?.length) parts.push(`[%cal ${diag.colorArrows.join(',')}]`);
+  for (const command of DIAG_COMMANDS) {
+    if (diag?.[command] !== undefined && diag[command] !== null) {
+      parts.push(`[%${command} ${diag[command]}]`);
+    }
+  }
+  // A closing brace would end the comment early
+  const body = (text ?? '').replace(/}/g, ')').trim();
+  if (body) parts.push(body);
+  if (!parts.length) return [];
+  const words = parts.join(' ').split(/\s+/);
+  words[0] = `{${words[0]}`;
+  words[words.length - 1] = `${words[words.length - 1]}}`;
+  return words;
+}
+
+interface MovetextOptions {
+  startTurn: 'w' | 'b';
+  startMoveNumber: number;
+  variations: boolean;
+}
+
+// Movetext tokens for a line whose first move is the given ply of the game
+function lineTokens(moves: PgnMove[], firstPly: number, options: MovetextOptions): string[] {
+  const tokens: string[] = [];
+  // Black's move number is repeated at the start and after anything that interrupts the moves
+  let interrupted = true;
+  moves.forEach((move, i) => {
+    const ply = firstPly + i;
+    const before = commentWords(move.commentMove);
+    if (before.length) {
+      tokens.push(...before);
+      interrupted = true;
+    }
+    const label = getMoveNumberLabel(ply, options.startTurn, options.startMoveNumber, interrupted);
+    if (label) tokens.push(label);
+    tokens.push(move.notation.notation, ...(move.nag ?? []));
+    interrupted = false;
+
+    const after = commentWords(move.commentAfter, move.commentDiag);
+    if (after.length) {
+      tokens.push(...after);
+      interrupted = true;
+    }
+    if (!options.variations) return;
+    for (const variation of move.variations ?? []) {
+      if (!variation.length) continue;
+      const inner = lineTokens(variation, ply, options);
+      inner[0] = `(${inner[0]}`;
+      inner[inner.length - 1] = `${inner[inner.length - 1]})`;
+      tokens.push(...inner);
+      interrupted = true;
+    }
+  });
+  return tokens;
+}
+
+// Join tokens into lines of at most LINE_WIDTH characters where possible
+function wrap(tokens: string[]): string {
+  const lines: string[] = [];
+  let current = '';
+  for (const token of tokens) {
+    if (current && current.length + token.length + 1 > LINE_WIDTH) {
+      lines.push(current);
+      current = token;
+    } else {
+      current = current ? `${current} ${token}` : token;
+    }
+  }
+  lines.push(current);
+  return lines.join('\n');
+}
+
+function movetextOptions(tree: ParseTree | undefined, variations: boolean): MovetextOptions {
+  return {
+    startTurn: getStartingTurn(tree),
+    startMoveNumber: getStartingMoveNumber(tree),
+    variations,
+  };
+}
+
+// A parsed game written back out as export-format PGN: roster tags first, the game
+// comment, moves with NAGs, comments and variations, then the result
+export function gameToPgn(tree: ParseTree): string {
+  const tags = getTags(tree);
+  const result = tags.find(([key]) => key === 'Result')![1];
+  const tokens = [
+    ...commentWords(tree.gameComment?.comment, tree.gameComment),
+    ...lineTokens(tree.moves, 0, movetextOptions(tree, true)),
+    result,
+  ];
+  return `${formatTags(tags)}\n\n${wrap(tokens)}\n`;
+}
+
+// A single line of play as a standalone PGN game. The line is unfinished, so the
+// result is always "*" regardless of how the original game ended.
+export function lineToPgn(tree: ParseTree | undefined, moves: PgnMove[]): string {
+  const tags = getTags(tree)
+    .filter(([key]) => key !== 'SetUp' && key !== 'FEN')
+    .map(([key, value]): [string, string] => [key, key === 'Result' ? '*' : value]);
+  if (isCustomStartingPosition(tree)) {
+    tags.push(['SetUp', '1'], ['FEN', getStartingFen(tree)]);
+  }
+  const tokens = [...lineTokens(moves, 0, movetextOptions(tree, false)), '*'];
+  return `${formatTags(tags)}\n\n${wrap(tokens)}\n`;
+}
+
+// Save PGN text through the browser's download prompt
+export function downloadPgn(filename: string, pgn: string) {
+  downloadBlob(filename, new Blob([pgn], { type: 'application/x-chess-pgn' }));
+}
@@ -0,0 +1,154 @@
+import { Chess, validateFen } from 'chess.js';
+import type { ParseTree } from '@mliebelt/pgn-parser';
+import { parseGames, type ParsedGame } from '../assets/games';
+import type { PgnMove } from './moveTree';
+import { getMoveNumberLabel } from './notation';
+import { gameToPgn } from './pgnExport';
+import {
+  createStartingChess,
+  getStartingFen,
+  getStartingMoveNumber,
+  getStartingTurn,
+  isCustomStartingPosition,
+} from './positionUtils';
+
+export type PgnIssue =
+  | { kind: 'syntax'; line: number; column: number; message: string }
+  | { kind: 'invalidFen'; fen: string; message: string }
+  | { kind: 'illegalMove'; moveNumber: string; san: string; variation: boolean }
+  | { kind: 'noMoves' };
+
+export interface GameCheck {
+  game: ParsedGame;
+  issues: PgnIssue[];
+  // The game cut back to its legal moves, or null if none are left
+  legalGame: ParsedGame | null;
+}
+
+export interface PgnFileCheck {
+  source: string;
+  syntaxError: PgnIssue | null;
+  games: GameCheck[];
+}
+
+type ParserError = { location: { start: { line: number; column: number } } };
+
+// Whether an error came from pgn-parser, which says where in the file it stopped
+function isParserError(error: unknown): error is ParserError {
+  const start = (error as { location?: { start?: { line?: unknown } } } | null)?.location?.start;
+  return typeof start?.line === 'number';
+}
+
+// Location and a short description of a pgn-parser syntax error
+export function toSyntaxIssue(error: unknown): PgnIssue {
+  const location = isParserError(error) ? error.location.start : undefined;
+  const message = error instanceof Error ? error.message : String(error);
+  // The parser lists every token it would have accepted; only what it found is useful here
+  const found = /but (.+) found\.?$/.exec(message);
+  return {
+    kind: 'syntax',
+    line: location?.line ?? 1,
+    column: location?.column ?? 1,
+    message: found ? `unexpected ${found[1]}` : message,
+  };
+}
+
+interface ReplayContext {
+  startTurn: 'w' | 'b';
+  startMoveNumber: number;
+  issues: PgnIssue[];
+}
+
+// Replay a line from `chess`, recording illegal moves. Returns the line up to its first
+// illegal move, with variations cut back the same way.
+function replayLine(
+  moves: PgnMove[],
+  chess: Chess,
+  firstPly: number,
+  variation: boolean,
+  context: ReplayContext
+): PgnMove[] {
+  const legal: PgnMove[] = [];
+  for (let i = 0; i < moves.length; i++) {
+    const move = moves[i];
+    const ply = firstPly + i;
+    // Variations replace this move, so they start from the position before it
+    const before = chess.fen();
+    const variations = (move.variations ?? [])
+      .map((line) => replayLine(line, new Chess(before), ply, true, context))
+      .filter((line) => line.length > 0);
+    try {
+      chess.move(move.notation.notation);
+    } catch {
+      context.issues.push({
+        kind: 'illegalMove',
+        moveNumber: getMoveNumberLabel(ply, context.startTurn, context.startMoveNumber, true),
+        san: move.notation.notation,
+        variation,
+      });
+      break;
+    }
+    legal.push({ ...move, variations });
+  }
+  return legal;
+}
+
+// Check that a parsed game can be played through, and build its legal prefix
+export function checkGame(game: ParsedGame): GameCheck {
+  const tree = game.parsed;
+  const issues: PgnIssue[] = [];
+  if (isCustomStartingPosition(tree)) {
+    const fen = getStartingFen(tree);
+    const result = validateFen(fen);
+    // Moves can't be checked without their position, and the standard one would be a guess
+    if (!result.ok) {
+      issues.push({ kind: 'invalidFen', fen, message: result.error ?? '' });
+      return { game, issues, legalGame: null };
+    }
+  }
+  if (!tree.moves?.length) {
+    return { game, issues: [...issues, { kind: 'noMoves' }], legalGame: null };
+  }
+
+  const context: ReplayContext = {
+    startTurn: getStartingTurn(tree),
+    startMoveNumber: getStartingMoveNumber(tree),
+    issues,
+  };
+  const moves = replayLine(tree.moves, createStartingChess(tree), 0, false, context);
+  if (!issues.length) return { game, issues, legalGame: game };
+  if (!moves.length) return { game, issues, legalGame: null };
+
+  const parsed: ParseTree = { ...tree, moves };
+  return { game, issues, legalGame: { ...game, parsed, pgn: gameToPgn(parsed) } };
+}
+
+// Parse and check every game in an uploaded file. Only parser errors are the file's fault;
+// anything else is thrown on.
+export function checkPgnFile(source: string, content: string): PgnFileCheck {
+  let parsed: ParsedGame[];
+  try {
+    parsed = parseGames(source, content);
+  } catch (e) {
+    if (!isParserError(e)) throw e;
+    return { source, syntaxError: toSyntaxIssue(e), games: [] };
+  }
+  return { source, syntaxError: null, games: parsed.map(checkGame) };
+}
+
+export function hasIssues(check: PgnFileCheck): boolean {
+  return !!check.syntaxError || check.games.some((game) => game.issues.length > 0);
+}
+
+export function describeIssue(issue: PgnIssue): string {
+  switch (issue.kind) {
+    case 'syntax':
+      return `Line ${issue.line}, column ${issue.column}: ${issue.message}`;
+    case 'invalidFen':
+      return `Invalid starting position "${issue.fen}": ${issue.message}`;
+    case 'illegalMove':
+      return `${issue.variation ? 'In a variation, move' : 'Move'} ${issue.moveNumber} ${issue.san} is illegal`;
+    case 'noMoves':
+      return 'No moves found';
+  }
+}
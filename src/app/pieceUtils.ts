@@ -1,11 +1,22 @@
 import * as THREE from 'three';
 import { SQUARE_SIZE, SQUARE_HEIGHT } from './scene/sceneBuilder';
-import { createRandomizedPieceMaterial } from './materials';
+import { createRandomizedPieceMaterial, type LoadedTextures, type SurfaceStyle } from './materials';
 
 export const PIECE_TYPES = ['pawn', 'rook', 'knight', 'bishop', 'queen', 'king'] as const;
 export const PIECE_BASE_SIZE = SQUARE_SIZE * 0.96;
 export const ANIMATION_DURATION = 1.0; // seconds
 export const KNIGHT_HOP_HEIGHT = 1.5; // how high knights jump
+export const DRAG_LIFT_HEIGHT = 0.5; // how high a piece floats while dragged
+
+// Capture timing: the captured piece waits for the mover, rises, travels to the graveyard and drops
+export const CAPTURE_START_DELAY = ANIMATION_DURATION * 0.6;
+export const CAPTURE_RISE_DURATION = ANIMATION_DURATION * 0.4;
+export const CAPTURE_TRAVEL_DURATION = ANIMATION_DURATION * 0.9;
+export const CAPTURE_DROP_DURATION = ANIMATION_DURATION * 0.5;
+export const CAPTURE_ANIMATION_DURATION =
+  CAPTURE_START_DELAY + CAPTURE_RISE_DURATION + CAPTURE_TRAVEL_DURATION + CAPTURE_DROP_DURATION;
+// Promotion: the pawn arrives, is swapped for the new piece, which then flashes
+export const PROMOTION_FLASH_DURATION = 0.5;
 
 export type PieceType = (typeof PIECE_TYPES)[number];
 export type PieceModels = Record<PieceType, THREE.Group>;
@@ -16,14 +27,14 @@ export interface PieceInfo {
   isBlack: boolean;
 }
 
-// Pre-computed piece scale factors
-export const PIECE_SCALES: Record<PieceType, number> = {
-  queen: 1.73,
-  king: 1.81,
-  bishop: 1.55,
-  knight: 1.18,
-  pawn: 0.96,
-  rook: 1.1,
+// How tall each piece stands, in squares
+export const PIECE_HEIGHTS: Record<PieceType, number> = {
+  queen: 1.66,
+  king: 1.74,
+  bishop: 1.49,
+  knight: 1.13,
+  pawn: 0.92,
+  rook: 1.06,
 };
 
 // Map chess.js piece types to our piece types
@@ -36,6 +47,9 @@ export const PIECE_TYPE_MAP: Record<string, PieceType> = {
   k: 'king',
 };
 
+// Pieces a pawn can promote to, in the order they are offered
+export const PROMOTION_ORDER = ['q', 'r', 'n', 'b'] as const;
+
 export function scalePieceToFit(model: THREE.Group, targetBaseSize: number): void {
   const box = new THREE.Box3().setFromObject(model);
   const size = new THREE.Vector3();
@@ -48,14 +62,82 @@ export function scalePieceToFit(model: THREE.Group, targetBaseSize: number): voi
   model.scale.set(scale, scale, scale);
 }
 
+// Part of a model's height, from either end, whose width tells the base from the top
+const END_BAND = 0.15;
+
+// Stand a model upright on its base at the origin and size it for its piece type, whichever
+// way up it was modeled: the longest side of its bounds is its height, and its wider end is
+// the base. A turn about the vertical then faces it the way the board expects. The result is
+// a group with no transform of its own, so pieces can be placed without knowing the model.
+export function normalizePieceModel(
+  model: THREE.Object3D,
+  type: PieceType,
+  turn: number = 0
+): THREE.Group {
+  model.updateMatrixWorld(true);
+  const points: THREE.Vector3[] = [];
+  model.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) return;
+    const position = child.geometry.getAttribute('position');
+    for (let i = 0; i < position.count; i++) {
+      points.push(
+        new THREE.Vector3().fromBufferAttribute(position, i).applyMatrix4(child.matrixWorld)
+      );
+    }
+  });
+  if (points.length === 0) throw new Error('The model has no meshes');
+  const bounds = new THREE.Box3().setFromPoints(points);
+  const size = bounds.getSize(new THREE.Vector3());
+  const center = bounds.getCenter(new THREE.Vector3());
+  const axis = size.x >= size.y && size.x >= size.z ? 0 : size.y >= size.z ? 1 : 2;
+  const [a, b] = [0, 1, 2].filter((i) => i !== axis);
+
+  // Widest reach from the middle among the points near each end
+  const low = bounds.min.getComponent(axis) + size.getComponent(axis) * END_BAND;
+  const high = bounds.max.getComponent(axis) - size.getComponent(axis) * END_BAND;
+  let lowWidth = 0;
+  let highWidth = 0;
+  for (const point of points) {
+    const along = point.getComponent(axis);
+    const width = Math.hypot(
+      point.getComponent(a) - center.getComponent(a),
+      point.getComponent(b) - center.getComponent(b)
+    );
+    if (along <= low) lowWidth = Math.max(lowWidth, width);
+    if (along >= high) highWidth = Math.max(highWidth, width);
+  }
+  const up = new THREE.Vector3().setComponent(axis, highWidth > lowWidth ? -1 : 1);
+
+  const oriented = new THREE.Group();
+  oriented.add(model);
+  oriented.quaternion
+    .setFromAxisAngle(new THREE.Vector3(0, 1, 0), turn)
+    .multiply(new THREE.Quaternion().setFromUnitVectors(up, new THREE.Vector3(0, 1, 0)));
+
+  // Tall enough for its type, unless that would make the base wider than a square allows
+  const height = size.getComponent(axis);
+  const base = Math.max(size.getComponent(a), size.getComponent(b));
+  oriented.scale.setScalar(Math.min(PIECE_HEIGHTS[type] / height, PIECE_BASE_SIZE / base));
+
+  const placed = new THREE.Box3().setFromObject(oriented, true);
+  oriented.position.set(
+    -(placed.min.x + placed.max.x) / 2,
+    -placed.min.y,
+    -(placed.min.z + placed.max.z) / 2
+  );
+
+  const piece = new THREE.Group();
+  piece.add(oriented);
+  return piece;
+}
+
 export function createPieceInstance(
   model: THREE.Group,
-  color: number,
-  scale: number = 1,
-  texture?: THREE.Texture
+  style: SurfaceStyle,
+  textures: LoadedTextures
 ): THREE.Group {
   const clone = model.clone();
-  const material = createRandomizedPieceMaterial(color, texture);
+  const material = createRandomizedPieceMaterial(style, textures);
 
   clone.traverse((child) => {
     if (child instanceof THREE.Mesh) {
@@ -65,10 +147,6 @@ export function createPieceInstance(
     }
   });
 
-  if (scale !== 1) {
-    clone.scale.multiplyScalar(scale);
-  }
-
   return clone;
 }
 
@@ -82,14 +160,8 @@ export function placePiece(
   // Position piece at center of square, on top of the board
   piece.position.set(col * SQUARE_SIZE, SQUARE_HEIGHT / 2, row * SQUARE_SIZE);
 
-  // Rotate all pieces 90 degrees on Z axis and X axis
-  piece.rotation.z = Math.PI / 2;
-  piece.rotation.x = isBlack ? Math.PI / 2 : Math.PI / 2 + Math.PI;
-
-  // Rotate black pieces to face the other direction
-  if (isBlack) {
-    piece.rotation.y = Math.PI;
-  }
+  // Models stand upright (see normalizePieceModel); black pieces turn to face the other way
+  piece.rotation.set(0, isBlack ? Math.PI : 0, 0);
 
   scene.add(piece);
 }
@@ -101,6 +173,14 @@ export function toSquareName(col: number, row: number): string {
   return `${file}${rank}`;
 }
 
+// Helper to find the square under a point on the board, or null off the board
+export function toSquareAt(x: number, z: number): string | null {
+  const col = Math.round(x / SQUARE_SIZE);
+  const row = Math.round(z / SQUARE_SIZE);
+  if (col < 0 || col > 7 || row < 0 || row > 7) return null;
+  return toSquareName(col, row);
+}
+
 // Helper to convert square name to col/row
 export function fromSquareName(square: string): { col: number; row: number } {
   const col = square.charCodeAt(0) - 97;
@@ -0,0 +1,255 @@
+import type { Move } from 'chess.js';
+import {
+  ANIMATION_DURATION,
+  CAPTURE_ANIMATION_DURATION,
+  CAPTURE_RISE_DURATION,
+  CAPTURE_TRAVEL_DURATION,
+  CAPTURE_DROP_DURATION,
+  PROMOTION_FLASH_DURATION,
+} from './pieceUtils';
+
+export const FIRST_MOVE_DELAY = 0.3; // seconds before the first move when playback starts
+export const PAUSE_BETWEEN_MOVES = 0.5; // seconds the position rests after each animation
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 0.75, 1, 1.5, 2, 3, 4];
+
+// How a move index change should be shown: animated forward, stepped back, or jumped to
+export type MoveDirection = 'forward' | 'backward' | 'jump';
+
+export interface PlaybackState {
+  index: number;
+  playing: boolean;
+  animating: boolean;
+}
+
+export type PlaybackEvent = { type: 'moveComplete'; index: number } | { type: 'ended' };
+
+export interface PlaybackControllerOptions {
+  getMoveCount: () => number;
+  // Seconds the board takes to play the move at this index, or to take it back
+  getMoveDuration: (index: number, direction: 'forward' | 'backward') => number;
+  // Extra seconds to rest on the position after this move during playback, e.g. to read a
+  // comment. Reading time does not change with the playback speed.
+  getMovePause?: (index: number) => number;
+  onIndexChange: (index: number, direction: MoveDirection) => void;
+  onStateChange?: (state: PlaybackState) => void;
+}
+
+export interface PlaybackController {
+  play: () => void;
+  pause: () => void;
+  toggle: () => void;
+  stepForward: () => Promise<void>;
+  stepBack: () => Promise<void>;
+  reset: () => void;
+  seek: (index: number, direction?: MoveDirection) => Promise<void>;
+  setSpeed: (speed: number) => void;
+  getSpeed: () => number;
+  whenIdle: () => Promise<void>;
+  subscribe: (listener: (event: PlaybackEvent) => void) => () => void;
+  getState: () => PlaybackState;
+  dispose: () => void;
+}
+
+// Length of the board animation for a move, matching the tweens in Chessboard
+export function getMoveAnimationDuration(move: Move | undefined): number {
+  if (!move) return ANIMATION_DURATION;
+  // Slides, knight hops and castling (the rook moves alongside the king) take one animation
+  let duration = ANIMATION_DURATION;
+  if (move.captured) {
+    // The captured piece finishes its trip to the graveyard after the mover lands
+    duration = Math.max(duration, CAPTURE_ANIMATION_DURATION);
+  }
+  if (move.promotion) {
+    // The pawn is swapped for the promoted piece on arrival, which then flashes
+    duration = Math.max(duration, ANIMATION_DURATION + PROMOTION_FLASH_DURATION);
+  }
+  return duration;
+}
+
+// Length of the reverse animation when a move is taken back
+export function getUndoAnimationDuration(move: Move | undefined): number {
+  if (!move?.captured) return ANIMATION_DURATION;
+  // The captured piece leaves the graveyard as the mover retreats
+  return Math.max(
+    ANIMATION_DURATION,
+    CAPTURE_RISE_DURATION + CAPTURE_TRAVEL_DURATION + CAPTURE_DROP_DURATION
+  );
+}
+
+export function createPlaybackController(options: PlaybackControllerOptions): PlaybackController {
+  let index = -1;
+  let speed = 1;
+  let playing = false;
+  let animating = false;
+  let animationTimer: ReturnType<typeof setTimeout> | null = null;
+  let playTimer: ReturnType<typeof setTimeout> | null = null;
+  let idleResolvers: (() => void)[] = [];
+  const listeners = new Set<(event: PlaybackEvent) => void>();
+
+  const getState = (): PlaybackState => ({ index, playing, animating });
+  const emitState = () => options.onStateChange?.(getState());
+  const emit = (event: PlaybackEvent) => listeners.forEach((listener) => listener(event));
+  // Wall-clock milliseconds for a span of animation seconds at the current speed
+  const toMs = (seconds: number) => (seconds * 1000) / speed;
+
+  const resolveIdle = () => {
+    const resolvers = idleResolvers;
+    idleResolvers = [];
+    resolvers.forEach((resolve) => resolve());
+  };
+
+  const whenIdle = (): Promise<void> => {
+    if (!animating) return Promise.resolve();
+    return new Promise((resolve) => idleResolvers.push(resolve));
+  };
+
+  const clearPlayTimer = () => {
+    if (playTimer) {
+      clearTimeout(playTimer);
+      playTimer = null;
+    }
+  };
+
+  const clearAnimationTimer = () => {
+    if (animationTimer) {
+      clearTimeout(animationTimer);
+      animationTimer = null;
+    }
+  };
+
+  const stop = () => {
+    clearPlayTimer();
+    if (playing) {
+      playing = false;
+      emitState();
+    }
+  };
+
+  const advance = () => {
+    playTimer = null;
+    if (index >= options.getMoveCount() - 1) {
+      stop();
+      emit({ type: 'ended' });
+      return;
+    }
+    goTo(index + 1, 'forward');
+  };
+
+  const finishAnimation = () => {
+    animationTimer = null;
+    animating = false;
+    emitState();
+    emit({ type: 'moveComplete', index });
+    resolveIdle();
+    // The next move is only scheduled once this one has finished animating
+    if (playing) {
+      const readingPause = (options.getMovePause?.(index) ?? 0) * 1000;
+      playTimer = setTimeout(advance, toMs(PAUSE_BETWEEN_MOVES) + readingPause);
+    }
+  };
+
+  const goTo = (next: number, direction: MoveDirection) => {
+    clearAnimationTimer();
+    const previous = index;
+    index = next;
+    options.onIndexChange(index, direction);
+    if (direction === 'forward' && index >= 0) {
+      animating = true;
+      emitState();
+      const duration = options.getMoveDuration(index, 'forward');
+      animationTimer = setTimeout(finishAnimation, toMs(duration));
+    } else if (direction === 'backward' && previous >= 0) {
+      // The move that was on the board is taken back
+      animating = true;
+      emitState();
+      const duration = options.getMoveDuration(previous, 'backward');
+      animationTimer = setTimeout(finishAnimation, toMs(duration));
+    } else {
+      animating = false;
+      emitState();
+      resolveIdle();
+    }
+  };
+
+  const play = () => {
+    if (playing) return;
+    // If at the end, restart from beginning
+    if (index >= options.getMoveCount() - 1) {
+      goTo(-1, 'jump');
+    }
+    playing = true;
+    emitState();
+    if (!animating) {
+      playTimer = setTimeout(advance, toMs(FIRST_MOVE_DELAY));
+    }
+  };
+
+  const pause = () => stop();
+
+  const toggle = () => (playing ? pause() : play());
+
+  const stepForward = () => {
+    stop();
+    if (index < options.getMoveCount() - 1) {
+      goTo(index + 1, 'forward');
+    }
+    return whenIdle();
+  };
+
+  const stepBack = () => {
+    stop();
+    if (index >= 0) {
+      goTo(index - 1, 'backward');
+    }
+    return whenIdle();
+  };
+
+  const reset = () => {
+    stop();
+    goTo(-1, 'jump');
+  };
+
+  const seek = (target: number, direction: MoveDirection = 'jump') => {
+    stop();
+    const clamped = Math.max(-1, Math.min(target, options.getMoveCount() - 1));
+    goTo(clamped, direction);
+    return whenIdle();
+  };
+
+  // Applies from the next scheduled step; the move currently animating keeps its timing
+  const setSpeed = (next: number) => {
+    speed = next > 0 ? next : 1;
+  };
+
+  const getSpeed = () => speed;
+
+  const subscribe = (listener: (event: PlaybackEvent) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const dispose = () => {
+    clearPlayTimer();
+    clearAnimationTimer();
+    listeners.clear();
+    resolveIdle();
+  };
+
+  return {
+    play,
+    pause,
+    toggle,
+    stepForward,
+    stepBack,
+    reset,
+    seek,
+    setSpeed,
+    getSpeed,
+    whenIdle,
+    subscribe,
+    getState,
+    dispose,
+  };
+}
@@ -0,0 +1,36 @@
+import { Chess, DEFAULT_POSITION } from 'chess.js';
+import type { ParseTree } from '@mliebelt/pgn-parser';
+
+// FEN of the position a game starts from, honoring the SetUp/FEN tag pair
+export function getStartingFen(tree?: ParseTree | null): string {
+  const fen = tree?.tags?.FEN;
+  if (fen && tree?.tags?.SetUp !== '0') {
+    return fen.trim();
+  }
+  return DEFAULT_POSITION;
+}
+
+export function isCustomStartingPosition(tree?: ParseTree | null): boolean {
+  return getStartingFen(tree) !== DEFAULT_POSITION;
+}
+
+// Fresh chess.js instance at the game's starting position (standard setup if the FEN is invalid)
+export function createStartingChess(tree?: ParseTree | null): Chess {
+  const fen = getStartingFen(tree);
+  try {
+    return new Chess(fen);
+  } catch (e) {
+    console.error(`Invalid FEN: ${fen}`, e);
+    return new Chess();
+  }
+}
+
+// Side to move in the starting position
+export function getStartingTurn(tree?: ParseTree | null): 'w' | 'b' {
+  return createStartingChess(tree).turn();
+}
+
+// Full move number of the starting position
+export function getStartingMoveNumber(tree?: ParseTree | null): number {
+  return createStartingChess(tree).moveNumber();
+}
@@ -0,0 +1,87 @@
+import * as THREE from 'three';
+import { SQUARE_SIZE, SQUARE_HEIGHT, type SceneBuilderParams } from './sceneBuilder';
+import { createArrowMaterial } from '../materials';
+import { fromSquareName } from '../pieceUtils';
+import type { ArrowKind, BoardArrow } from '../arrowUtils';
+
+const ARROW_COLORS: Record<ArrowKind, number> = {
+  preview: 0x3a9b4f,
+  threat: 0xd9432b,
+  best: 0x2f6fd6,
+  markRed: 0xe53935,
+  markGreen: 0x43a047,
+  markBlue: 0x1e88e5,
+  markYellow: 0xfdd835,
+};
+
+const ARROW_THICKNESS = 0.03;
+const SHAFT_WIDTH = 0.14;
+const HEAD_WIDTH = 0.38;
+const HEAD_LENGTH = 0.32;
+const END_INSET = 0.2; // Keep arrow ends off the square centers where the pieces stand
+const ARROW_Y = SQUARE_HEIGHT / 2 + 0.01;
+
+export interface ArrowLayer {
+  setArrows: (arrows: BoardArrow[]) => void;
+  geometries: THREE.BufferGeometry[];
+}
+
+// Flat arrows lying on the board. The shaft and head geometries are shared by every
+// arrow and built pointing along +z from the origin, so each arrow is a group rotated
+// toward its target square.
+export function buildArrows(params: SceneBuilderParams): ArrowLayer {
+  const { scene } = params;
+  const group = new THREE.Group();
+  scene.add(group);
+
+  // Unit-length shaft, stretched per arrow
+  const shaftGeometry = new THREE.BoxGeometry(SHAFT_WIDTH, ARROW_THICKNESS, 1);
+  shaftGeometry.translate(0, ARROW_THICKNESS / 2, 0.5);
+
+  const headShape = new THREE.Shape();
+  headShape.moveTo(-HEAD_WIDTH / 2, 0);
+  headShape.lineTo(HEAD_WIDTH / 2, 0);
+  headShape.lineTo(0, HEAD_LENGTH);
+  headShape.closePath();
+  const headGeometry = new THREE.ExtrudeGeometry(headShape, {
+    depth: ARROW_THICKNESS,
+    bevelEnabled: false,
+  });
+  // Lay the triangle flat with its tip along +z
+  headGeometry.rotateX(Math.PI / 2);
+  headGeometry.translate(0, ARROW_THICKNESS, 0);
+
+  const materials = Object.fromEntries(
+    Object.entries(ARROW_COLORS).map(([kind, color]) => [kind, createArrowMaterial(color)])
+  ) as Record<ArrowKind, THREE.MeshStandardMaterial>;
+
+  const setArrows = (arrows: BoardArrow[]) => {
+    group.clear();
+    arrows.forEach(({ from, to, kind }) => {
+      const start = fromSquareName(from);
+      const end = fromSquareName(to);
+      const dx = (end.col - start.col) * SQUARE_SIZE;
+      const dz = (end.row - start.row) * SQUARE_SIZE;
+      const distance = Math.hypot(dx, dz);
+      const length = distance - END_INSET * 2;
+      if (length <= HEAD_LENGTH) return;
+
+      const arrow = new THREE.Group();
+      arrow.position.set(
+        start.col * SQUARE_SIZE + (dx / distance) * END_INSET,
+        ARROW_Y,
+        start.row * SQUARE_SIZE + (dz / distance) * END_INSET
+      );
+      arrow.rotation.y = Math.atan2(dx, dz);
+
+      const shaft = new THREE.Mesh(shaftGeometry, materials[kind]);
+      shaft.scale.z = length - HEAD_LENGTH;
+      const head = new THREE.Mesh(headGeometry, materials[kind]);
+      head.position.z = length - HEAD_LENGTH;
+      arrow.add(shaft, head);
+      group.add(arrow);
+    });
+  };
+
+  return { setArrows, geometries: [shaftGeometry, headGeometry] };
+}
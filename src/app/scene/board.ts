@@ -13,36 +13,45 @@ import {
   createRandomizedSquareMaterial,
   texturesToDispose,
   materialsToDispose,
-  LIGHT_SQUARE_TINT,
-  DARK_SQUARE_TINT,
 } from '../materials';
+import { fromSquareName, toSquareName } from '../pieceUtils';
 
 const FILES = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
 const RANKS = ['1', '2', '3', '4', '5', '6', '7', '8'];
 
-export function buildSquares(params: SceneBuilderParams): THREE.BoxGeometry {
-  const { scene, loadedTextures } = params;
+// Square meshes by square name (e.g., "e4"), each with its own material
+export type SquareMeshes = Map<string, THREE.Mesh<THREE.BoxGeometry, THREE.MeshStandardMaterial>>;
+
+// a1 is dark, h1 is light
+export function isLightSquare(name: string): boolean {
+  const { col, row } = fromSquareName(name);
+  return (row + col) % 2 === 0;
+}
+
+export function buildSquares(params: SceneBuilderParams): {
+  geometry: THREE.BoxGeometry;
+  squares: SquareMeshes;
+} {
+  const { scene, loadedTextures, theme } = params;
+  const squares: SquareMeshes = new Map();
 
   const squareGeometry = new THREE.BoxGeometry(SQUARE_SIZE, SQUARE_HEIGHT, SQUARE_SIZE);
 
   for (let row = 0; row < BOARD_SIZE; row++) {
     for (let col = 0; col < BOARD_SIZE; col++) {
       const isLight = (row + col) % 2 === 0;
-      let material;
-      if (isLight) {
-        material = createRandomizedSquareMaterial(loadedTextures.whiteGranite, LIGHT_SQUARE_TINT);
-      } else {
-        material = createRandomizedSquareMaterial(loadedTextures.blueGranite, DARK_SQUARE_TINT);
-      }
+      const style = isLight ? theme.squares.light : theme.squares.dark;
+      const material = createRandomizedSquareMaterial(style, loadedTextures);
       const square = new THREE.Mesh(squareGeometry, material);
       square.position.set(col * SQUARE_SIZE, 0, row * SQUARE_SIZE);
       square.castShadow = true;
       square.receiveShadow = true;
       scene.add(square);
+      squares.set(toSquareName(col, row), square);
     }
   }
 
-  return squareGeometry;
+  return { geometry: squareGeometry, squares };
 }
 
 export function buildMolding(params: SceneBuilderParams): THREE.BufferGeometry[] {
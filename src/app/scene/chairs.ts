@@ -11,7 +11,7 @@ import {
   BLACK_CHAIR_Z,
   type SceneBuilderParams,
 } from './sceneBuilder';
-import { BLACK_CHAIR_TINT, createChairMaterial, WHITE_CHAIR_TINT } from '../materials';
+import { createChairMaterial } from '../materials';
 
 export async function loadChairModel(loader: GLTFLoader, basePath: string): Promise<GLTF | null> {
   try {
@@ -24,8 +24,12 @@ export async function loadChairModel(loader: GLTFLoader, basePath: string): Prom
   }
 }
 
-export function buildChairs(params: SceneBuilderParams, chairModel: THREE.Group): void {
-  const { scene, loadedTextures } = params;
+// Returns the chair materials, so a new theme can restyle them
+export function buildChairs(
+  params: SceneBuilderParams,
+  chairModel: THREE.Group
+): { white: THREE.MeshStandardMaterial; black: THREE.MeshStandardMaterial } {
+  const { scene, loadedTextures, theme } = params;
   const floorY = TABLE_TOP_Y - TABLE_HEIGHT - TABLE_HEIGHT * 10;
   const targetWidth = (BOARD_SIZE * SQUARE_SIZE + MARGIN * 2) * 2.0 * 0.5 * 2 * 0.585;
   const createChair = (z: number, material: THREE.MeshStandardMaterial, rotateY: number) => {
@@ -55,8 +59,9 @@ export function buildChairs(params: SceneBuilderParams, chairModel: THREE.Group)
     scene.add(clone);
   };
 
-  const whiteChairMaterial = createChairMaterial(WHITE_CHAIR_TINT, loadedTextures.whiteGranite);
-  const blackChairMaterial = createChairMaterial(BLACK_CHAIR_TINT, loadedTextures.whiteGranite);
+  const whiteChairMaterial = createChairMaterial(theme.chairs.white, loadedTextures);
+  const blackChairMaterial = createChairMaterial(theme.chairs.black, loadedTextures);
   createChair(WHITE_CHAIR_Z, whiteChairMaterial, 0);
   createChair(BLACK_CHAIR_Z, blackChairMaterial, Math.PI);
+  return { white: whiteChairMaterial, black: blackChairMaterial };
 }
@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import gsap from 'gsap';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
 import { BOARD_SIZE, SQUARE_SIZE, MARGIN, SEAT_Y, BOARD_CENTER } from './sceneBuilder';
 import { ANIMATION_DURATION, scalePieceToFit } from '../pieceUtils';
@@ -20,15 +21,19 @@ export async function loadCrownModel(
   }
 }
 
+// Crowns appear once the final move (including any capture) has played out
+export const CROWN_DELAY = ANIMATION_DURATION * 2.0; // seconds
+
+// Pending crown placement. Timed on gsap's clock so recorded clips show the crowns too.
+export type CrownTimer = { current: gsap.core.Tween | null };
+
 export function clearCrowns(
   scene: THREE.Scene,
   crownMeshes: THREE.Group[],
-  crownTimeout: { current: ReturnType<typeof setTimeout> | null }
+  crownTimeout: CrownTimer
 ): void {
-  if (crownTimeout.current) {
-    clearTimeout(crownTimeout.current);
-    crownTimeout.current = null;
-  }
+  crownTimeout.current?.kill();
+  crownTimeout.current = null;
   crownMeshes.forEach((m) => scene.remove(m));
   crownMeshes.length = 0;
 }
@@ -37,8 +42,9 @@ export function scheduleCrowns(
   scene: THREE.Scene,
   crownModel: THREE.Group,
   crownMeshes: THREE.Group[],
-  crownTimeout: { current: ReturnType<typeof setTimeout> | null },
-  result: string | undefined
+  crownTimeout: CrownTimer,
+  result: string | undefined,
+  speed: number = 1
 ): void {
   const chairOffset = (BOARD_SIZE - 1) * SQUARE_SIZE + SQUARE_SIZE / 2 + MARGIN + 2.5;
   const blackChairZ = -SQUARE_SIZE / 2 - MARGIN - 2.5;
@@ -62,8 +68,7 @@ export function scheduleCrowns(
     crownMeshes.push(crown);
   };
 
-  const crownDelay = ANIMATION_DURATION * 2.0 * 1000;
-  crownTimeout.current = setTimeout(() => {
+  crownTimeout.current = gsap.delayedCall(CROWN_DELAY / speed, () => {
     crownTimeout.current = null;
     if (result === '1-0') {
       placeCrown(chairOffset);
@@ -75,5 +80,5 @@ export function scheduleCrowns(
       placeCrown(chairOffset, clipLeft);
       placeCrown(blackChairZ, clipRight);
     }
-  }, crownDelay);
+  });
 }
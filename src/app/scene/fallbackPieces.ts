@@ -0,0 +1,103 @@
+import * as THREE from 'three';
+import type { PieceType } from '../pieceUtils';
+
+// Outlines of plain turned pieces, as [radius, height] points from the base up. The knight
+// cannot be turned, so it is a tall tapered post. Units are arbitrary; the models are sized
+// for the board like any other (see normalizePieceModel).
+const PROFILES: Record<PieceType, [number, number][]> = {
+  pawn: [
+    [0, 0],
+    [0.9, 0],
+    [0.9, 0.2],
+    [0.7, 0.35],
+    [0.55, 0.5],
+    [0.35, 1.3],
+    [0.55, 1.45],
+    [0.55, 1.55],
+    [0.3, 1.65],
+    [0.45, 1.8],
+    [0.5, 2.0],
+    [0.45, 2.2],
+    [0.3, 2.35],
+    [0, 2.45],
+  ],
+  rook: [
+    [0, 0],
+    [0.9, 0],
+    [0.9, 0.25],
+    [0.7, 0.4],
+    [0.55, 0.6],
+    [0.5, 1.6],
+    [0.7, 1.75],
+    [0.7, 2.2],
+    [0.5, 2.2],
+    [0.5, 2.05],
+    [0, 2.05],
+  ],
+  knight: [
+    [0, 0],
+    [0.9, 0],
+    [0.9, 0.25],
+    [0.65, 0.45],
+    [0.45, 1.0],
+    [0.6, 1.6],
+    [0.55, 2.2],
+    [0.3, 2.6],
+    [0, 2.7],
+  ],
+  bishop: [
+    [0, 0],
+    [0.9, 0],
+    [0.9, 0.2],
+    [0.65, 0.4],
+    [0.35, 1.6],
+    [0.6, 1.75],
+    [0.35, 1.9],
+    [0.5, 2.3],
+    [0.4, 2.6],
+    [0.15, 2.85],
+    [0.15, 2.95],
+    [0.2, 3.05],
+    [0, 3.15],
+  ],
+  queen: [
+    [0, 0],
+    [0.95, 0],
+    [0.95, 0.25],
+    [0.7, 0.45],
+    [0.4, 2.0],
+    [0.7, 2.15],
+    [0.45, 2.3],
+    [0.75, 3.0],
+    [0.5, 3.05],
+    [0.25, 3.2],
+    [0.2, 3.35],
+    [0, 3.45],
+  ],
+  king: [
+    [0, 0],
+    [0.95, 0],
+    [0.95, 0.25],
+    [0.7, 0.45],
+    [0.42, 2.1],
+    [0.7, 2.25],
+    [0.45, 2.4],
+    [0.7, 3.0],
+    [0.3, 3.1],
+    [0.15, 3.2],
+    [0.15, 3.6],
+    [0, 3.6],
+  ],
+};
+
+const LATHE_SEGMENTS = 32;
+
+// A stand-in for a piece whose model could not be loaded, so the board always has a full set
+export function createFallbackPieceModel(type: PieceType): THREE.Group {
+  const points = PROFILES[type].map(([radius, height]) => new THREE.Vector2(radius, height));
+  const geometry = new THREE.LatheGeometry(points, LATHE_SEGMENTS);
+  const model = new THREE.Group();
+  model.name = type;
+  model.add(new THREE.Mesh(geometry, new THREE.MeshStandardMaterial()));
+  return model;
+}
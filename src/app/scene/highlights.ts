@@ -0,0 +1,67 @@
+import * as THREE from 'three';
+import gsap from 'gsap';
+import type { SquareHighlight } from '../highlightUtils';
+import type { SquareMeshes } from './board';
+
+const HIGHLIGHT_COLORS: Record<SquareHighlight, number> = {
+  from: 0xffb347,
+  to: 0xffd54f,
+  check: 0xff2a1a,
+  checkmate: 0xc8102e,
+  selected: 0x4fc3f7,
+  destination: 0x66bb6a,
+  markRed: 0xe53935,
+  markGreen: 0x43a047,
+  markBlue: 0x1e88e5,
+  markYellow: 0xfdd835,
+};
+
+const HIGHLIGHT_INTENSITY: Record<SquareHighlight, number> = {
+  from: 0.25,
+  to: 0.4,
+  check: 0.7,
+  checkmate: 1.0,
+  selected: 0.5,
+  destination: 0.35,
+  markRed: 0.45,
+  markGreen: 0.45,
+  markBlue: 0.45,
+  markYellow: 0.45,
+};
+
+const CHECKMATE_PULSE_DURATION = 0.6; // seconds per half pulse
+
+const NO_EMISSION = new THREE.Color(0x000000);
+
+// Tint squares by glowing their materials; every square has its own material so
+// only the marked squares change. Checkmate pulses to stand apart from a plain check.
+export function applySquareHighlights(
+  squares: SquareMeshes,
+  highlights: Map<string, SquareHighlight>
+) {
+  squares.forEach((square, name) => {
+    const material = square.material;
+    gsap.killTweensOf(material);
+    const highlight = highlights.get(name);
+    if (!highlight) {
+      material.emissive.copy(NO_EMISSION);
+      material.emissiveIntensity = 1;
+      return;
+    }
+    material.emissive.setHex(HIGHLIGHT_COLORS[highlight]);
+    material.emissiveIntensity = HIGHLIGHT_INTENSITY[highlight];
+    if (highlight === 'checkmate') {
+      gsap.to(material, {
+        emissiveIntensity: HIGHLIGHT_INTENSITY.checkmate * 0.4,
+        duration: CHECKMATE_PULSE_DURATION,
+        ease: 'sine.inOut',
+        yoyo: true,
+        repeat: -1,
+      });
+    }
+  });
+}
+
+export function clearSquareHighlights(squares: SquareMeshes) {
+  applySquareHighlights(squares, new Map());
+}
@@ -0,0 +1,70 @@
+import * as THREE from 'three';
+import { PIECE_TYPES, type PieceModels } from '../pieceUtils';
+import { SQUARE_SIZE } from './sceneBuilder';
+
+const PREVIEW_SPIN = 0.5; // radians per second
+const PREVIEW_SPACING = SQUARE_SIZE * 1.25;
+
+// A turntable of a piece set in a row, pawn to king, sized as they stand on the board
+export function createPiecePreview(canvas: HTMLCanvasElement) {
+  const renderer = new THREE.WebGLRenderer({ canvas, antialias: true, alpha: true });
+  renderer.setPixelRatio(window.devicePixelRatio);
+  renderer.setSize(canvas.clientWidth, canvas.clientHeight, false);
+  renderer.toneMapping = THREE.ACESFilmicToneMapping;
+
+  const scene = new THREE.Scene();
+  scene.add(new THREE.AmbientLight(0xffffff, 0.4 * Math.PI));
+  const key = new THREE.DirectionalLight(0xffffff, 0.6 * Math.PI);
+  key.position.set(3, 6, 8);
+  scene.add(key);
+
+  const camera = new THREE.PerspectiveCamera(
+    30,
+    canvas.clientWidth / canvas.clientHeight,
+    0.1,
+    100
+  );
+  camera.position.set(0, 2, 7);
+  camera.lookAt(0, 0.8, 0);
+
+  // One plain material, so the shapes are judged rather than the theme
+  const material = new THREE.MeshStandardMaterial({
+    color: 0xfff0d8,
+    metalness: 0.05,
+    roughness: 0.35,
+  });
+  const row = new THREE.Group();
+  scene.add(row);
+
+  let animationId: number | undefined;
+  const startedAt = performance.now();
+  const animate = () => {
+    animationId = requestAnimationFrame(animate);
+    const spin = ((performance.now() - startedAt) / 1000) * PREVIEW_SPIN;
+    row.children.forEach((piece) => (piece.rotation.y = spin));
+    renderer.render(scene, camera);
+  };
+  animate();
+
+  return {
+    // The models stay the caller's; the preview shows copies sharing their geometry
+    show: (models: Partial<PieceModels>) => {
+      row.clear();
+      PIECE_TYPES.forEach((type, i) => {
+        const model = models[type];
+        if (!model) return;
+        const piece = model.clone();
+        piece.traverse((child) => {
+          if (child instanceof THREE.Mesh) child.material = material;
+        });
+        piece.position.x = (i - (PIECE_TYPES.length - 1) / 2) * PREVIEW_SPACING;
+        row.add(piece);
+      });
+    },
+    dispose: () => {
+      if (animationId) cancelAnimationFrame(animationId);
+      material.dispose();
+      renderer.dispose();
+    },
+  };
+}
@@ -1,23 +1,129 @@
+import * as THREE from 'three';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
-import { PIECE_TYPES, PIECE_BASE_SIZE, type PieceModels, scalePieceToFit } from '../pieceUtils';
+import { PIECE_TYPES, type PieceModels, type PieceType, normalizePieceModel } from '../pieceUtils';
+import { createFallbackPieceModel } from './fallbackPieces';
 
+// A folder with one GLB per piece type, named after it (e.g. "knight.glb"), and the turn
+// about the vertical that faces its models the way the board expects
+export interface PieceSetSource {
+  folder: string;
+  turn: number;
+}
+
+// The bundled models were drawn lying a quarter turn round from how they stand on the board
+export const BUNDLED_PIECE_SET: PieceSetSource = { folder: 'pieces/', turn: Math.PI / 2 };
+
+// Dispose geometries and original GLTF materials from a loaded model
+export function disposeModel(model: THREE.Object3D): void {
+  model.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.geometry.dispose();
+      if (Array.isArray(child.material)) {
+        child.material.forEach((m: THREE.Material) => m.dispose());
+      } else if (child.material) {
+        child.material.dispose();
+      }
+    }
+  });
+}
+
+// Load all six models at once. A piece whose model fails to load gets a plain turned
+// stand-in, so the set is always complete.
 export async function loadPieceModels(
   loader: GLTFLoader,
-  basePath: string
-): Promise<Partial<PieceModels>> {
-  const models: Partial<PieceModels> = {};
+  basePath: string,
+  turn: number = 0
+): Promise<PieceModels> {
+  const entries = await Promise.all(
+    PIECE_TYPES.map(async (pieceType) => {
+      try {
+        const gltf = await loader.loadAsync(`${basePath}${pieceType}.glb`);
+        console.log(`Loaded and scaled ${pieceType} model`);
+        return [pieceType, normalizePieceModel(gltf.scene, pieceType, turn)] as const;
+      } catch (error) {
+        console.error(`Failed to load ${pieceType}, using a plain stand-in:`, error);
+        const fallback = createFallbackPieceModel(pieceType);
+        return [pieceType, normalizePieceModel(fallback, pieceType)] as const;
+      }
+    })
+  );
+  return Object.fromEntries(entries) as PieceModels;
+}
+
+// The piece a file or node name refers to, e.g. "White_Knight.glb" or "king_asm"
+export function getPieceTypeFromName(name: string): PieceType | null {
+  const lower = name.toLowerCase();
+  return PIECE_TYPES.find((type) => lower.includes(type)) ?? null;
+}
+
+// The first node named after each piece type, outermost first, detached from the file's
+// scene with its placement in it kept
+export function findPieceNodes(root: THREE.Object3D): Partial<Record<PieceType, THREE.Object3D>> {
+  const nodes: Partial<Record<PieceType, THREE.Object3D>> = {};
+  const queue = [...root.children];
+  root.updateMatrixWorld(true);
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    const type = getPieceTypeFromName(node.name);
+    if (type && !nodes[type]) {
+      const copy = node.clone();
+      node.matrixWorld.decompose(copy.position, copy.quaternion, copy.scale);
+      nodes[type] = copy;
+      continue;
+    }
+    queue.push(...node.children);
+  }
+  return nodes;
+}
+
+export interface UploadedPieceSet {
+  models: Partial<PieceModels>; // Normalized models found in the files
+  missing: PieceType[]; // Pieces that keep the theme's models
+  errors: string[];
+}
+
+// Load a piece set from the user's files: a model file per piece, named after it, or one file
+// with a node named after each piece. Other files (buffers, textures) are served to the
+// loader by name, so a .gltf can bring its parts along.
+export async function loadUploadedPieceSet(files: File[]): Promise<UploadedPieceSet> {
+  const urls = new Map(files.map((file) => [file.name, URL.createObjectURL(file)]));
+  const manager = new THREE.LoadingManager();
+  manager.setURLModifier((url) => urls.get(decodeURIComponent(url.split('/').pop()!)) ?? url);
+  const loader = new GLTFLoader(manager);
+  const modelFiles = files.filter((file) => /\.(glb|gltf)$/i.test(file.name));
+  const found: Partial<Record<PieceType, THREE.Object3D>> = {};
+  const errors: string[] = [];
 
-  for (const pieceType of PIECE_TYPES) {
+  try {
+    for (const file of modelFiles) {
+      try {
+        const gltf = await loader.loadAsync(file.name);
+        const type = getPieceTypeFromName(file.name);
+        if (type) {
+          found[type] ??= gltf.scene;
+        } else {
+          const nodes = findPieceNodes(gltf.scene);
+          for (const [nodeType, node] of Object.entries(nodes) as [PieceType, THREE.Object3D][]) {
+            found[nodeType] ??= node;
+          }
+        }
+      } catch (error) {
+        errors.push(`${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  } finally {
+    urls.forEach((url) => URL.revokeObjectURL(url));
+  }
+
+  const models: Partial<PieceModels> = {};
+  for (const type of PIECE_TYPES) {
+    const model = found[type];
+    if (!model) continue;
     try {
-      const gltf = await loader.loadAsync(`${basePath}${pieceType}.glb`);
-      const model = gltf.scene;
-      scalePieceToFit(model, PIECE_BASE_SIZE);
-      models[pieceType] = model;
-      console.log(`Loaded and scaled ${pieceType} model`);
+      models[type] = normalizePieceModel(model, type);
     } catch (error) {
-      console.error(`Failed to load ${pieceType}:`, error);
+      errors.push(`${type}: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
-
-  return models;
+  return { models, missing: PIECE_TYPES.filter((type) => !models[type]), errors };
 }
@@ -1,4 +1,5 @@
 import type { LoadedTextures } from '../materials';
+import type { Theme } from '../themes';
 import * as THREE from 'three';
 
 // Layout constants shared with Chessboard.tsx
@@ -20,4 +21,5 @@ export const SEAT_Y = TABLE_TOP_Y - 5.0;
 export interface SceneBuilderParams {
   scene: THREE.Scene;
   loadedTextures: LoadedTextures;
+  theme: Theme; // Theme the scene is built in; kept current for parts that load later
 }
@@ -0,0 +1,100 @@
+import * as THREE from 'three';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+
+export const MAX_SNAPSHOT_SIZE = 8192; // pixels on a side; the GPU may allow less
+
+export interface SnapshotOptions {
+  width: number;
+  height: number;
+  transparent: boolean; // Leave the background out, so only the board and its setting remain
+}
+
+// Keep a requested size within what can be rendered, preserving its shape
+export function clampSnapshotSize(
+  width: number,
+  height: number,
+  maxSize: number = MAX_SNAPSHOT_SIZE
+): { width: number; height: number } {
+  const w = Math.max(1, Math.round(width) || 1);
+  const h = Math.max(1, Math.round(height) || 1);
+  const scale = Math.min(1, maxSize / Math.max(w, h));
+  return { width: Math.max(1, Math.floor(w * scale)), height: Math.max(1, Math.floor(h * scale)) };
+}
+
+// WebGL reads rows bottom-up; images are stored top-down
+export function flipRows(
+  pixels: Uint8Array,
+  width: number,
+  height: number
+): Uint8ClampedArray<ArrayBuffer> {
+  const flipped = new Uint8ClampedArray(pixels.length);
+  const rowLength = width * 4;
+  for (let y = 0; y < height; y++) {
+    const from = (height - 1 - y) * rowLength;
+    flipped.set(pixels.subarray(from, from + rowLength), y * rowLength);
+  }
+  return flipped;
+}
+
+// Render the scene off screen at any size. The scene is drawn in linear color like any render
+// target, then the output pass applies the renderer's tone mapping and sRGB encoding, as on
+// screen. Returns RGBA pixels, top row first.
+export function renderSnapshot(
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.PerspectiveCamera,
+  options: SnapshotOptions
+): { pixels: Uint8ClampedArray<ArrayBuffer>; width: number; height: number } {
+  const maxSize = Math.min(MAX_SNAPSHOT_SIZE, renderer.capabilities.maxTextureSize);
+  const { width, height } = clampSnapshotSize(options.width, options.height, maxSize);
+
+  // A copy of the live camera, so the view on screen keeps its shape
+  const shot = camera.clone();
+  shot.aspect = width / height;
+  shot.updateProjectionMatrix();
+
+  const background = scene.background;
+  const clearColor = renderer.getClearColor(new THREE.Color());
+  const clearAlpha = renderer.getClearAlpha();
+  const linear = new THREE.WebGLRenderTarget(width, height, {
+    type: THREE.HalfFloatType,
+    samples: 4,
+  });
+  const encoded = new THREE.WebGLRenderTarget(width, height);
+  const output = new OutputPass();
+  try {
+    if (options.transparent) {
+      scene.background = null;
+      renderer.setClearColor(0x000000, 0);
+    }
+    renderer.setRenderTarget(linear);
+    renderer.clear();
+    renderer.render(scene, shot);
+    output.render(renderer, encoded, linear, 0, false);
+    const pixels = new Uint8Array(width * height * 4);
+    renderer.readRenderTargetPixels(encoded, 0, 0, width, height, pixels);
+    return { pixels: flipRows(pixels, width, height), width, height };
+  } finally {
+    scene.background = background;
+    renderer.setClearColor(clearColor, clearAlpha);
+    renderer.setRenderTarget(null);
+    linear.dispose();
+    encoded.dispose();
+    output.dispose();
+  }
+}
+
+// Encode RGBA pixels as a PNG
+export function pixelsToPng(
+  pixels: Uint8ClampedArray<ArrayBuffer>,
+  width: number,
+  height: number
+): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')!.putImageData(new ImageData(pixels, width, height), 0, 0);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))))
+  );
+}
@@ -0,0 +1,99 @@
+import type { LightRig } from './lighting';
+import type { SurfaceStyle } from './materials';
+import { BUNDLED_PIECE_SET, type PieceSetSource } from './scene/pieces';
+
+export type ThemeName = 'classic' | 'marble' | 'tournament' | 'contrast';
+
+// Everything about how the board set looks. Switching themes restyles the scene in place;
+// only a different piece set has to be loaded.
+export interface Theme {
+  label: string;
+  pieceSet: PieceSetSource;
+  pieces: { white: SurfaceStyle; black: SurfaceStyle };
+  squares: { light: SurfaceStyle; dark: SurfaceStyle };
+  chairs: { white: SurfaceStyle; black: SurfaceStyle };
+  background: [top: number, bottom: number];
+  lighting: LightRig;
+}
+
+export const THEMES: Record<ThemeName, Theme> = {
+  classic: {
+    label: 'Classic wood',
+    pieceSet: BUNDLED_PIECE_SET,
+    pieces: {
+      // Ivory tint over light wood; lighter warm gray with a faint red tint over dark wood
+      white: { color: 0xfff0d8, texture: 'lightWood', metalness: 0.05, roughness: 0.35 },
+      black: { color: 0xbe8585, texture: 'darkWood', metalness: 0.05, roughness: 0.35 },
+    },
+    squares: {
+      light: { color: 0xffffff, texture: 'whiteGranite', metalness: 0.05, roughness: 0.7 },
+      dark: { color: 0xccccee, texture: 'blueGranite', metalness: 0.05, roughness: 0.7 },
+    },
+    chairs: {
+      white: { color: 0xf5f5f5, texture: 'whiteGranite', metalness: 0.05, roughness: 0.4 },
+      black: { color: 0x625a52, texture: 'whiteGranite', metalness: 0.05, roughness: 0.4 },
+    },
+    background: [0x0d0705, 0xa3886e],
+    lighting: { color: 0xffffff, ambient: 0.18, overhead: 0.2, sides: 0.1, exposure: 1.2 },
+  },
+  marble: {
+    label: 'Marble',
+    pieceSet: BUNDLED_PIECE_SET,
+    pieces: {
+      white: { color: 0xfaf6f0, texture: 'whiteGranite', metalness: 0.1, roughness: 0.2 },
+      black: { color: 0x4a4a5c, texture: 'blueGranite', metalness: 0.1, roughness: 0.2 },
+    },
+    squares: {
+      light: { color: 0xf4f0ea, texture: 'whiteGranite', metalness: 0.1, roughness: 0.25 },
+      dark: { color: 0x7a7a8c, texture: 'blueGranite', metalness: 0.1, roughness: 0.25 },
+    },
+    chairs: {
+      white: { color: 0xe8e4de, texture: 'whiteGranite', metalness: 0.1, roughness: 0.3 },
+      black: { color: 0x3c3a40, texture: 'blueGranite', metalness: 0.1, roughness: 0.3 },
+    },
+    background: [0x0a0a10, 0x8c8a90],
+    lighting: { color: 0xfff8f0, ambient: 0.2, overhead: 0.25, sides: 0.1, exposure: 1.15 },
+  },
+  tournament: {
+    label: 'Tournament vinyl',
+    pieceSet: BUNDLED_PIECE_SET,
+    pieces: {
+      // Molded plastic pieces on a roll-up board: buff and green, no grain
+      white: { color: 0xf2eee4, texture: null, metalness: 0, roughness: 0.45 },
+      black: { color: 0x1e1e1e, texture: null, metalness: 0, roughness: 0.45 },
+    },
+    squares: {
+      light: { color: 0xf0ecd8, texture: null, metalness: 0, roughness: 0.85 },
+      dark: { color: 0x4a7a50, texture: null, metalness: 0, roughness: 0.85 },
+    },
+    chairs: {
+      white: { color: 0x9aa0a6, texture: null, metalness: 0.2, roughness: 0.6 },
+      black: { color: 0x2d2d2d, texture: null, metalness: 0.2, roughness: 0.6 },
+    },
+    background: [0x101418, 0x6d7a86],
+    lighting: { color: 0xf4f8ff, ambient: 0.24, overhead: 0.22, sides: 0.12, exposure: 1.1 },
+  },
+  contrast: {
+    label: 'High contrast',
+    pieceSet: BUNDLED_PIECE_SET,
+    pieces: {
+      white: { color: 0xffffff, texture: null, metalness: 0, roughness: 0.5 },
+      black: { color: 0x0a0a0a, texture: null, metalness: 0, roughness: 0.5 },
+    },
+    squares: {
+      // Blue dark squares, so black pieces stand out on them too
+      light: { color: 0xd8d8d8, texture: null, metalness: 0, roughness: 0.9 },
+      dark: { color: 0x5a6fa8, texture: null, metalness: 0, roughness: 0.9 },
+    },
+    chairs: {
+      white: { color: 0xffffff, texture: null, metalness: 0, roughness: 0.6 },
+      black: { color: 0x111111, texture: null, metalness: 0, roughness: 0.6 },
+    },
+    background: [0x000000, 0x303030],
+    lighting: { color: 0xffffff, ambient: 0.3, overhead: 0.25, sides: 0.12, exposure: 1.3 },
+  },
+};
+
+export const THEME_NAMES = Object.keys(THEMES) as ThemeName[];
+
+export const DEFAULT_THEME: ThemeName = 'classic';
@@ -0,0 +1,247 @@
+import { Chess } from 'chess.js';
+
+export const DEFAULT_ANALYSIS_DEPTH = 18;
+
+// Where the engine worker script is served from. Any UCI engine built to run as a Web
+// Worker (e.g. a Stockfish WASM build) can be dropped in here or pointed to with VITE_UCI_ENGINE.
+export const ENGINE_WORKER_URL =
+  import.meta.env.VITE_UCI_ENGINE || import.meta.env.BASE_URL + 'engine/engine.js';
+
+// A line-based channel to a UCI engine
+export interface UciTransport {
+  send: (command: string) => void;
+  onLine: (listener: (line: string) => void) => void;
+  onError: (listener: (error: string) => void) => void;
+  terminate: () => void;
+}
+
+// Evaluation from white's point of view: centipawns, or moves to mate (negative if black mates)
+export type EngineScore = { type: 'cp'; value: number } | { type: 'mate'; value: number };
+
+export interface EngineAnalysis {
+  fen: string;
+  depth: number;
+  score: EngineScore;
+  pv: string[]; // Principal variation in UCI notation, e.g. ["e2e4", "e7e5"]
+  bestMove: string | null; // Set once the search for this position has finished
+}
+
+export type EngineEvent =
+  | { type: 'analysis'; analysis: EngineAnalysis }
+  | { type: 'error'; message: string };
+
+export interface EngineAdapter {
+  analyze: (fen: string) => void;
+  stop: () => void;
+  subscribe: (listener: (event: EngineEvent) => void) => () => void;
+  dispose: () => void;
+}
+
+export interface UciEngineOptions {
+  depth?: number;
+}
+
+// Score, depth and PV from a UCI "info" line, or null if it carries no evaluation. The PV is
+// empty when there is no move to play, as in a mated or stalemated position.
+export function parseInfoLine(
+  line: string
+): { depth: number; score: EngineScore; pv: string[] } | null {
+  const tokens = line.trim().split(/\s+/);
+  if (tokens[0] !== 'info') return null;
+  let depth = 0;
+  let score: EngineScore | null = null;
+  let pv: string[] = [];
+  for (let i = 1; i < tokens.length; i++) {
+    if (tokens[i] === 'depth') {
+      depth = parseInt(tokens[++i], 10);
+    } else if (tokens[i] === 'score') {
+      const type = tokens[++i];
+      const value = parseInt(tokens[++i], 10);
+      if (type === 'cp' || type === 'mate') score = { type, value };
+    } else if (tokens[i] === 'pv') {
+      pv = tokens.slice(i + 1);
+      break;
+    }
+  }
+  if (!score) return null;
+  return { depth, score, pv };
+}
+
+const isBlackToMove = (fen: string) => fen.split(' ')[1] === 'b';
+
+// Engines score from the side to move; the board shows white's point of view
+export function toWhitePerspective(score: EngineScore, fen: string): EngineScore {
+  return isBlackToMove(fen) ? { type: score.type, value: -score.value } : score;
+}
+
+// Short display form, e.g. "+0.34", "-1.20", "M3", "-M2"
+export function formatScore(score: EngineScore): string {
+  if (score.type === 'mate') {
+    return `${score.value < 0 ? '-' : ''}M${Math.abs(score.value)}`;
+  }
+  const pawns = score.value / 100;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(2)}`;
+}
+
+// Share of the evaluation bar that belongs to white, from 0 to 1, for a score from white's
+// point of view in the given position
+export function getWhiteShare(score: EngineScore, fen: string): number {
+  if (score.type === 'mate') {
+    // Mate in 0: the side to move has already been mated
+    if (score.value === 0) return isBlackToMove(fen) ? 1 : 0;
+    return score.value > 0 ? 1 : 0;
+  }
+  // Logistic curve so a few pawns fill most of the bar without ever reaching the end
+  return 1 / (1 + Math.exp(-score.value / 400));
+}
+
+// The analysis of a position with no moves left: mated, or a draw
+function getGameOverAnalysis(fen: string): EngineAnalysis {
+  const score: EngineScore = new Chess(fen).isCheckmate()
+    ? { type: 'mate', value: 0 }
+    : { type: 'cp', value: 0 };
+  return { fen, depth: 0, score: toWhitePerspective(score, fen), pv: [], bestMove: null };
+}
+
+// Convert UCI moves played from a position into SAN, stopping at the first illegal one
+export function uciToSan(fen: string, moves: string[]): string[] {
+  const chess = new Chess(fen);
+  const sans: string[] = [];
+  for (const uci of moves) {
+    try {
+      const move = chess.move({
+        from: uci.slice(0, 2),
+        to: uci.slice(2, 4),
+        promotion: uci[4],
+      });
+      sans.push(move.san);
+    } catch {
+      break;
+    }
+  }
+  return sans;
+}
+
+// Runs the engine script as a Web Worker that exchanges UCI lines as string messages
+export function createWorkerTransport(url: string | URL = ENGINE_WORKER_URL): UciTransport {
+  const worker = new Worker(url);
+  const lineListeners: ((line: string) => void)[] = [];
+  const errorListeners: ((error: string) => void)[] = [];
+  worker.onmessage = (e: MessageEvent) => {
+    String(e.data)
+      .split('\n')
+      .filter((line) => line.trim())
+      .forEach((line) => lineListeners.forEach((listener) => listener(line)));
+  };
+  worker.onerror = (e: ErrorEvent) => {
+    e.preventDefault();
+    errorListeners.forEach((listener) => listener(e.message || `Could not load engine ${url}`));
+  };
+  return {
+    send: (command) => worker.postMessage(command),
+    onLine: (listener) => lineListeners.push(listener),
+    onError: (listener) => errorListeners.push(listener),
+    terminate: () => worker.terminate(),
+  };
+}
+
+// Drives a UCI engine through a transport. Only one search runs at a time: a new position
+// stops the current search and starts once the engine has answered with "bestmove", so
+// output from an abandoned search is never reported against the new position.
+export function createUciEngine(
+  transport: UciTransport,
+  options: UciEngineOptions = {}
+): EngineAdapter {
+  const depth = options.depth ?? DEFAULT_ANALYSIS_DEPTH;
+  const listeners = new Set<(event: EngineEvent) => void>();
+  let ready = false;
+  let searching = false;
+  let stopping = false;
+  let searchFen: string | null = null;
+  let pendingFen: string | null = null;
+  let latest: EngineAnalysis | null = null;
+
+  const emit = (event: EngineEvent) => listeners.forEach((listener) => listener(event));
+
+  const startSearch = () => {
+    if (!ready || searching || !pendingFen) return;
+    searchFen = pendingFen;
+    pendingFen = null;
+    searching = true;
+    latest = null;
+    transport.send(`position fen ${searchFen}`);
+    transport.send(`go depth ${depth}`);
+  };
+
+  const handleLine = (line: string) => {
+    if (line === 'uciok') {
+      transport.send('isready');
+    } else if (line === 'readyok') {
+      ready = true;
+      startSearch();
+    } else if (line.startsWith('bestmove')) {
+      const bestMove = line.split(/\s+/)[1];
+      const fen = searchFen;
+      searching = false;
+      stopping = false;
+      const noMove = !bestMove || bestMove === '(none)';
+      // An engine may report nothing at all for a game that is already over
+      if (!latest && noMove && fen) latest = getGameOverAnalysis(fen);
+      if (!pendingFen && fen && latest) {
+        emit({ type: 'analysis', analysis: { ...latest, bestMove: noMove ? null : bestMove } });
+      }
+      startSearch();
+    } else if (searching && !pendingFen && searchFen) {
+      const info = parseInfoLine(line);
+      if (!info) return;
+      latest = {
+        fen: searchFen,
+        depth: info.depth,
+        score: toWhitePerspective(info.score, searchFen),
+        // A line with only a score keeps the moves of the last one that had them
+        pv: info.pv.length ? info.pv : (latest?.pv ?? []),
+        bestMove: null,
+      };
+      emit({ type: 'analysis', analysis: latest });
+    }
+  };
+
+  transport.onLine(handleLine);
+  transport.onError((message) => emit({ type: 'error', message }));
+  transport.send('uci');
+
+  const analyze = (fen: string) => {
+    pendingFen = fen;
+    if (searching) {
+      if (!stopping) {
+        stopping = true;
+        transport.send('stop');
+      }
+    } else {
+      startSearch();
+    }
+  };
+
+  const stop = () => {
+    pendingFen = null;
+    if (searching && !stopping) {
+      stopping = true;
+      transport.send('stop');
+    }
+  };
+
+  const subscribe = (listener: (event: EngineEvent) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const dispose = () => {
+    listeners.clear();
+    transport.send('quit');
+    transport.terminate();
+  };
+
+  return { analyze, stop, subscribe, dispose };
+}
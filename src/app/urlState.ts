@@ -0,0 +1,101 @@
+import { CAMERA_VIEW_NAMES, type CameraPose, type CameraViewName } from './cameraViews';
+
+// Milliseconds the address bar waits for the board and camera to settle before it is updated
+export const URL_UPDATE_DELAY = 400;
+
+// Source shown in the game list for games opened from a link
+export const SHARED_GAME_SOURCE = 'Shared link';
+
+// Longest compressed PGN that is put in a link; bigger games are shared by name only
+export const MAX_SHARED_PGN_LENGTH = 2000;
+
+// What a link restores: the game, the position in its main line and how the board is viewed
+export interface UrlState {
+  game: string | null; // Game key, see getGameKey
+  pgn: string | null; // Compressed PGN of an uploaded game, so it opens anywhere
+  moveIndex: number | null;
+  view: CameraViewName | null;
+  camera: CameraPose | null; // Free camera position, when the user has orbited away from a preset
+}
+
+export const EMPTY_URL_STATE: UrlState = {
+  game: null,
+  pgn: null,
+  moveIndex: null,
+  view: null,
+  camera: null,
+};
+
+function parseCameraPose(value: string | null): CameraPose | null {
+  if (!value) return null;
+  const [phi, theta, distanceScale] = value.split(',').map(Number);
+  if (![phi, theta, distanceScale].every(Number.isFinite) || distanceScale <= 0) return null;
+  return { phi, theta, distanceScale };
+}
+
+// Read the state from a location hash such as "#game=immortal&move=23&view=black"
+export function parseUrlState(hash: string): UrlState {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const move = parseInt(params.get('move') ?? '', 10);
+  const view = params.get('view') as CameraViewName | null;
+  return {
+    game: params.get('game') || null,
+    pgn: params.get('pgn') || null,
+    moveIndex: Number.isFinite(move) && move >= -1 ? move : null,
+    view: view && CAMERA_VIEW_NAMES.includes(view) ? view : null,
+    camera: parseCameraPose(params.get('cam')),
+  };
+}
+
+// The hash for a state, or an empty string when there is nothing to record
+export function formatUrlState(state: UrlState): string {
+  const params = new URLSearchParams();
+  if (state.game) params.set('game', state.game);
+  if (state.moveIndex !== null && state.moveIndex >= 0) params.set('move', String(state.moveIndex));
+  if (state.view) params.set('view', state.view);
+  if (state.camera) {
+    const { phi, theta, distanceScale } = state.camera;
+    params.set('cam', [phi, theta, distanceScale].map((n) => n.toFixed(2)).join(','));
+  }
+  // Last, so the short readable parts stay at the front of a long link
+  if (state.pgn) params.set('pgn', state.pgn);
+  const query = params.toString();
+  return query ? `#${query}` : '';
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function pipe(
+  bytes: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array<ArrayBuffer>> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+// Deflate a PGN into URL-safe text
+export async function compressPgn(pgn: string): Promise<string> {
+  const bytes = new TextEncoder().encode(pgn);
+  return toBase64Url(await pipe(bytes, new CompressionStream('deflate-raw')));
+}
+
+// Undo compressPgn; throws if the text was not produced by it
+export async function decompressPgn(encoded: string): Promise<string> {
+  const bytes = await pipe(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+  return new TextDecoder().decode(bytes);
+}
+
+// Compressed PGN for a link, or null if it would make the link too long
+export async function encodeSharedPgn(pgn: string): Promise<string | null> {
+  const encoded = await compressPgn(pgn);
+  return encoded.length <= MAX_SHARED_PGN_LENGTH ? encoded : null;
+}
@@ -0,0 +1,210 @@
+import gsap from 'gsap';
+import type { Move } from 'chess.js';
+import type { CameraViewName } from './cameraViews';
+import { createGifEncoder } from './gifEncoder';
+import type { renderSnapshot, SnapshotOptions } from './snapshot';
+import { getMoveAnimationDuration, PAUSE_BETWEEN_MOVES } from './playback';
+import { CROWN_DELAY } from './scene/crown';
+
+export type ExportFormat = 'webm' | 'gif';
+
+export interface ExportResolution {
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const EXPORT_RESOLUTIONS: ExportResolution[] = [
+  { label: '480 × 270', width: 480, height: 270 },
+  { label: '640 × 360', width: 640, height: 360 },
+  { label: '1280 × 720', width: 1280, height: 720 },
+  { label: '1920 × 1080', width: 1920, height: 1080 },
+  { label: '480 × 480', width: 480, height: 480 },
+  { label: '1080 × 1080', width: 1080, height: 1080 },
+];
+
+// Frames per second of each format; GIFs stay smaller at a lower rate
+export const EXPORT_FPS: Record<ExportFormat, number> = { webm: 30, gif: 20 };
+
+export const EXPORT_LEAD_IN = 1; // seconds on the first position before it starts moving
+export const EXPORT_HOLD = 1.5; // seconds on the last position, after any crowns appear
+
+export interface ExportOptions {
+  format: ExportFormat;
+  fromIndex: number; // First move played in the clip
+  toIndex: number; // Last move played in the clip
+  width: number;
+  height: number;
+  view: CameraViewName | null; // Camera preset, or null to film from where the camera is
+}
+
+// A stretch of the clip: the board is put at a move (animating it, unless it is the opening
+// position) and then filmed for a number of frames
+export interface ExportSegment {
+  moveIndex: number;
+  frames: number;
+}
+
+// The board as a film set. The live render loop stops while a capture is running.
+export interface BoardCapture {
+  canvas: HTMLCanvasElement;
+  start: (width: number, height: number, view: CameraViewName | null) => void;
+  renderFrame: () => void;
+  stop: () => void;
+  // A still of the view on screen, rendered off screen at any size
+  snapshot: (options: SnapshotOptions) => ReturnType<typeof renderSnapshot>;
+}
+
+export interface ExportCallbacks {
+  // Put the board at a move, animating from the previous move or jumping straight to it
+  showMove: (index: number, animate: boolean) => void;
+  onProgress: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+// Frames for each move of the range: the animation and the rest after it, at the playback
+// speed. The last move also waits for the crowns, which only come at the end of the game.
+export function planExportSegments(
+  moves: (Move | undefined)[],
+  options: Pick<ExportOptions, 'fromIndex' | 'toIndex'>,
+  fps: number,
+  speed: number = 1
+): ExportSegment[] {
+  const frames = (seconds: number) => Math.max(1, Math.ceil(seconds * fps));
+  const segments: ExportSegment[] = [
+    { moveIndex: options.fromIndex - 1, frames: frames(EXPORT_LEAD_IN) },
+  ];
+  for (let i = options.fromIndex; i <= options.toIndex; i++) {
+    const last = i === options.toIndex;
+    const animation = last
+      ? Math.max(getMoveAnimationDuration(moves[i]), CROWN_DELAY)
+      : getMoveAnimationDuration(moves[i]);
+    const rest = last ? EXPORT_HOLD : PAUSE_BETWEEN_MOVES;
+    segments.push({ moveIndex: i, frames: frames(animation / speed + rest) });
+  }
+  return segments;
+}
+
+// WebM needs MediaRecorder and canvas streams; GIFs are encoded here and always work
+export function canRecordWebm(): boolean {
+  return (
+    typeof MediaRecorder !== 'undefined' &&
+    typeof HTMLCanvasElement !== 'undefined' &&
+    'captureStream' in HTMLCanvasElement.prototype
+  );
+}
+
+// File name for a clip, still or diagram of a game, e.g. "Anderssen_Vs_Kieseritzky.webm"
+export function getExportFilename(name: string, extension: string): string {
+  const base = name.replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '') || 'game';
+  return `${base}.${extension}`;
+}
+
+// gsap normally advances with the wall clock. While a clip is recorded it only advances
+// when a frame is stepped, so every frame shows the animation at exactly its own time.
+function takeOverGsapClock(fps: number) {
+  const root = gsap.globalTimeline;
+  const startTime = root.time();
+  let frame = 0;
+  gsap.ticker.remove(gsap.updateRoot);
+  return {
+    step: () => {
+      frame++;
+      gsap.updateRoot(root.startTime() + startTime + frame / fps);
+    },
+    // Carry on from the recorded time, so nothing jumps when the wall clock takes over again
+    release: () => {
+      root.startTime(gsap.ticker.time - root.time());
+      gsap.ticker.add(gsap.updateRoot);
+    },
+  };
+}
+
+const nextFrameDue = (due: number) =>
+  new Promise((resolve) => setTimeout(resolve, Math.max(0, due - performance.now())));
+
+// MediaRecorder stamps frames with the wall clock, so frames are handed over at the clip's
+// own pace. Frames that take longer than that to render play back slightly fast.
+function createWebmWriter(canvas: HTMLCanvasElement, fps: number) {
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find((type) =>
+    MediaRecorder.isTypeSupported(type)
+  );
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => chunks.push(e.data);
+  recorder.start();
+  const startedAt = performance.now();
+  let frame = 0;
+  return {
+    addFrame: async () => {
+      track.requestFrame();
+      await nextFrameDue(startedAt + (++frame * 1000) / fps);
+    },
+    finish: () =>
+      new Promise<Blob>((resolve) => {
+        recorder.onstop = () => {
+          stream.getTracks().forEach((t) => t.stop());
+          resolve(new Blob(chunks, { type: 'video/webm' }));
+        };
+        recorder.stop();
+      }),
+  };
+}
+
+// The WebGL canvas is copied out right after each render, before the browser clears it
+function createGifWriter(canvas: HTMLCanvasElement, fps: number) {
+  const { width, height } = canvas;
+  const copy = document.createElement('canvas');
+  copy.width = width;
+  copy.height = height;
+  const context = copy.getContext('2d', { willReadFrequently: true })!;
+  const encoder = createGifEncoder(width, height, fps);
+  return {
+    addFrame: async () => {
+      context.drawImage(canvas, 0, 0);
+      encoder.addFrame(context.getImageData(0, 0, width, height).data);
+      // Let the page repaint the progress bar between frames
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    },
+    finish: async () => new Blob([encoder.finish()], { type: 'image/gif' }),
+  };
+}
+
+// Film the range of moves frame by frame. Resolves to null if cancelled through the signal.
+export async function recordClip(
+  capture: BoardCapture,
+  options: ExportOptions,
+  segments: ExportSegment[],
+  callbacks: ExportCallbacks
+): Promise<Blob | null> {
+  const fps = EXPORT_FPS[options.format];
+  const total = segments.reduce((sum, segment) => sum + segment.frames, 0);
+  capture.start(options.width, options.height, options.view);
+  const clock = takeOverGsapClock(fps);
+  try {
+    const writer =
+      options.format === 'gif'
+        ? createGifWriter(capture.canvas, fps)
+        : createWebmWriter(capture.canvas, fps);
+    let done = 0;
+    for (const [i, segment] of segments.entries()) {
+      callbacks.showMove(segment.moveIndex, i > 0);
+      for (let frame = 0; frame < segment.frames; frame++) {
+        if (callbacks.signal?.aborted) {
+          await writer.finish();
+          return null;
+        }
+        capture.renderFrame();
+        await writer.addFrame();
+        clock.step();
+        callbacks.onProgress(++done / total);
+      }
+    }
+    return await writer.finish();
+  } finally {
+    clock.release();
+    capture.stop();
+  }
+}
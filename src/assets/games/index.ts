@@ -1,20 +1,47 @@
-import { parse } from '@mliebelt/pgn-parser';
+import { parse, split } from '@mliebelt/pgn-parser';
 import type { ParseTree } from '@mliebelt/pgn-parser';
 
 export interface ParsedGame {
   name: string;
+  source: string;
   pgn: string;
-  parsed: ParseTree[];
+  parsed: ParseTree;
+  // Set on games kept in the local library (uploads), which the user can rename and tag
+  libraryId?: number;
+  title?: string;
+  labels?: string[];
 }
 
-// Parse PGN files at build time
-export function parseGame(name: string, pgnContent: string): ParsedGame {
-  const parsed = parse(pgnContent, { startRule: 'games' }) as ParseTree[];
-  return {
-    name,
-    pgn: pgnContent,
-    parsed,
-  };
+export interface GameGroup {
+  source: string;
+  games: ParsedGame[];
+}
+
+// Parse every game in a PGN file; each one becomes its own entry named after the source file
+export function parseGames(source: string, pgnContent: string): ParsedGame[] {
+  const trees = parse(pgnContent, { startRule: 'games' }) as ParseTree[];
+  // split() needs blank lines between games, so fall back to the whole file if it disagrees
+  const chunks = trees.length > 1 ? split(pgnContent) : [];
+  return trees.map((tree, i) => ({
+    name: trees.length > 1 ? `${source} #${i + 1}` : source,
+    source,
+    pgn: chunks.length === trees.length ? chunks[i].all : pgnContent,
+    parsed: tree,
+  }));
+}
+
+// Group games by the file they were loaded from, keeping the original order
+export function groupBySource(gameList: ParsedGame[]): GameGroup[] {
+  const groups: GameGroup[] = [];
+  for (const game of gameList) {
+    let group = groups.find((g) => g.source === game.source);
+    if (!group) {
+      group = { source: game.source, games: [] };
+      groups.push(group);
+    }
+    group.games.push(game);
+  }
+  return groups;
 }
 
 // Dynamically import all .pgn files from this directory
@@ -25,7 +52,7 @@ const pgnModules = import.meta.glob('./*.pgn', {
 }) as Record<string, string>;
 
 // Export parsed games
-export const games: ParsedGame[] = Object.entries(pgnModules).map(([path, content]) => {
+export const games: ParsedGame[] = Object.entries(pgnModules).flatMap(([path, content]) => {
   const name = path.replace('./', '').replace('.pgn', '');
-  return parseGame(name, content);
+  return parseGames(name, content);
 });
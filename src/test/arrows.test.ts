@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { Chess } from 'chess.js';
+import { getPreviewArrow, getThreatArrows } from '../app/arrowUtils';
+
+describe('board arrows', () => {
+  it('previews the next move from the current position', () => {
+    const chess = new Chess();
+    chess.move('e4');
+    expect(getPreviewArrow(chess, 'Nc6')).toEqual({ from: 'b8', to: 'c6', kind: 'preview' });
+  });
+
+  it('skips a preview that is not legal here', () => {
+    expect(getPreviewArrow(new Chess(), 'Nc6')).toBeNull();
+    expect(getPreviewArrow(new Chess(), undefined)).toBeNull();
+  });
+
+  it('points at undefended pieces the side to move can take', () => {
+    // The knight on e5 hangs to the f3 knight; the d5 pawn is defended by e6
+    const chess = new Chess('rnbqkb1r/ppp2ppp/4p3/3pn3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 0 1');
+    const arrows = getThreatArrows(chess);
+    expect(arrows).toContainEqual({ from: 'f3', to: 'e5', kind: 'threat' });
+    expect(arrows).not.toContainEqual({ from: 'e4', to: 'd5', kind: 'threat' });
+  });
+
+  it('draws a single arrow for a capturing promotion', () => {
+    const chess = new Chess('1n2k3/P7/8/8/8/8/8/4K3 w - - 0 1');
+    expect(getThreatArrows(chess)).toEqual([{ from: 'a7', to: 'b8', kind: 'threat' }]);
+  });
+});
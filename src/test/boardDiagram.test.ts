@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { Chess } from 'chess.js';
+import { createBoardDiagram } from '../app/boardDiagram';
+import { clampSnapshotSize, flipRows } from '../app/snapshot';
+
+const count = (text: string, pattern: RegExp) => text.match(pattern)?.length ?? 0;
+
+// Position of the text element drawing a glyph, e.g. the white king
+const glyphAt = (svg: string, glyph: string) => {
+  const match = svg.match(new RegExp(`<text x="([\\d.]+)" y="([\\d.]+)" fill="#000">${glyph}`));
+  return match ? [Number(match[1]), Number(match[2])] : null;
+};
+
+describe('createBoardDiagram', () => {
+  const start = new Chess().board();
+
+  it('draws a square board with hatched dark squares and every piece', () => {
+    const svg = createBoardDiagram(start, { squareSize: 40 });
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg" width="368"')).toBe(true);
+    expect(count(svg, /fill="url\(#hatch\)"/g)).toBe(32);
+    // Black pieces are one glyph; white pieces an outline over a white silhouette
+    expect(count(svg, /fill="#000">/g)).toBe(32);
+    expect(count(svg, /fill="#fff">/g)).toBe(16);
+  });
+
+  it('puts white at the bottom, or black when flipped', () => {
+    const whiteKing = glyphAt(createBoardDiagram(start, { squareSize: 40 }), '♔');
+    expect(whiteKing).toEqual([24 + 4 * 40 + 20, 24 + 7 * 40 + 20]);
+    const flipped = glyphAt(createBoardDiagram(start, { squareSize: 40, flipped: true }), '♔');
+    expect(flipped).toEqual([24 + 3 * 40 + 20, 24 + 20]);
+  });
+
+  it('labels files and ranks unless asked not to', () => {
+    const svg = createBoardDiagram(start);
+    for (const label of ['a', 'h', '1', '8']) expect(svg).toContain(`>${label}</text>`);
+    expect(createBoardDiagram(start, { coordinates: false })).not.toContain('>a</text>');
+  });
+
+  it('shows only the pieces left on the board', () => {
+    const svg = createBoardDiagram(new Chess('8/8/4k3/8/8/3K4/4P3/8 w - - 0 1').board());
+    expect(count(svg, /fill="#000">/g)).toBe(3);
+    expect(glyphAt(svg, '♚')).not.toBeNull();
+  });
+});
+
+describe('clampSnapshotSize', () => {
+  it('scales oversized pictures down, keeping their shape', () => {
+    expect(clampSnapshotSize(1920, 1080)).toEqual({ width: 1920, height: 1080 });
+    expect(clampSnapshotSize(16384, 8192, 4096)).toEqual({ width: 4096, height: 2048 });
+    expect(clampSnapshotSize(0, NaN)).toEqual({ width: 1, height: 1 });
+  });
+});
+
+describe('flipRows', () => {
+  it('turns bottom-up rows the right way up', () => {
+    const pixels = Uint8Array.from([1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4]);
+    expect(Array.from(flipRows(pixels, 2, 2))).toEqual([
+      3, 3, 3, 3, 4, 4, 4, 4, 1, 1, 1, 1, 2, 2, 2, 2,
+    ]);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { CAMERA_VIEWS, getFlippedView, getViewSpherical } from '../app/cameraViews';
+
+const limits = {
+  minDistance: 5,
+  maxDistance: 30,
+  minPolarAngle: 0,
+  maxPolarAngle: Math.PI / 2 - 0.2,
+};
+
+describe('camera views', () => {
+  it('flips between the two players', () => {
+    expect(getFlippedView('white')).toBe('black');
+    expect(getFlippedView('black')).toBe('white');
+    expect(getFlippedView('top')).toBe('black');
+  });
+
+  it('looks at the board from opposite sides for white and black', () => {
+    const white = getViewSpherical(CAMERA_VIEWS.white, 10, limits);
+    const black = getViewSpherical(CAMERA_VIEWS.black, 10, limits);
+    expect(black.theta - white.theta).toBeCloseTo(Math.PI);
+    expect(black.phi).toBeCloseTo(white.phi);
+    expect(white.radius).toBe(10);
+  });
+
+  it('keeps every preset within the orbit limits', () => {
+    for (const view of Object.values(CAMERA_VIEWS)) {
+      for (const distance of [1, 10, 100]) {
+        const pose = getViewSpherical(view, distance, limits);
+        expect(pose.radius).toBeGreaterThanOrEqual(limits.minDistance);
+        expect(pose.radius).toBeLessThanOrEqual(limits.maxDistance);
+        expect(pose.phi).toBeGreaterThan(limits.minPolarAngle);
+        expect(pose.phi).toBeLessThanOrEqual(limits.maxPolarAngle);
+      }
+    }
+  });
+});
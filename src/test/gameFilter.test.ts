@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import { parseGames, type ParsedGame } from '../assets/games';
+import {
+  browseGames,
+  EMPTY_GAME_FILTER,
+  getDateRange,
+  summarizeGame,
+  type GameFilter,
+} from '../app/gameFilter';
+
+function makeGame(name: string, tags: Record<string, string>, labels?: string[]): ParsedGame {
+  const header = Object.entries(tags)
+    .map(([key, value]) => `[${key} "${value}"]`)
+    .join('\n');
+  // The parser takes the Result tag from the end of the moves
+  const [game] = parseGames(name, `${header}\n\n1. e4 e5 ${tags.Result ?? '*'}`);
+  return { ...game, labels };
+}
+
+const GAMES = [
+  makeGame('immortal', {
+    White: 'Anderssen, Adolf',
+    Black: 'Kieseritzky, Lionel',
+    Event: 'London casual',
+    Site: 'London ENG',
+    Date: '1851.06.21',
+    ECO: 'C33',
+    Result: '1-0',
+  }),
+  makeGame('opera', {
+    White: 'Morphy, Paul',
+    Black: 'Duke Karl / Count Isouard',
+    Event: 'Paris',
+    Site: 'Paris FRA',
+    Date: '1858.??.??',
+    ECO: 'C41',
+    Result: '1-0',
+  }),
+  makeGame(
+    'deep-blue',
+    {
+      White: 'Deep Blue',
+      Black: 'Kasparov, Garry',
+      Event: 'IBM Man-Machine',
+      Site: 'Philadelphia USA',
+      Date: '1996.02.10',
+      ECO: 'B22',
+      Result: '1-0',
+      WhiteElo: '2700',
+      BlackElo: '2795',
+    },
+    ['computers']
+  ),
+  makeGame('kasparov-topalov', {
+    White: 'Kasparov, Garry',
+    Black: 'Topalov, Veselin',
+    Event: 'Hoogovens',
+    Site: 'Wijk aan Zee NED',
+    Date: '1999.01.20',
+    ECO: 'B07',
+    Result: '1-0',
+    WhiteElo: '2812',
+    BlackElo: '2700',
+  }),
+  makeGame('unknown', { White: '?', Black: '?', Date: '????.??.??', Result: '*' }),
+];
+
+const names = (filter: Partial<GameFilter>) =>
+  browseGames(GAMES, { ...EMPTY_GAME_FILTER, ...filter }, null).map((s) => s.game.name);
+
+describe('summarizeGame', () => {
+  it('reads the tags the browser shows', () => {
+    expect(summarizeGame(GAMES[3])).toMatchObject({
+      white: 'Kasparov, Garry',
+      date: '1999.01.20',
+      eco: 'B07',
+      result: '1-0',
+      elo: 2756,
+    });
+  });
+
+  it('treats PGN placeholders as unknown', () => {
+    expect(summarizeGame(GAMES[4])).toMatchObject({
+      white: '',
+      black: '',
+      date: '',
+      eco: '',
+      result: '*',
+      elo: null,
+    });
+  });
+});
+
+describe('getDateRange', () => {
+  it('widens unknown months and days', () => {
+    expect(getDateRange('1851.06.21')).toEqual([18510621, 18510621]);
+    expect(getDateRange('1858.??.??')).toEqual([18580101, 18581231]);
+    expect(getDateRange('1858')).toEqual([18580101, 18581231]);
+    expect(getDateRange('????.??.??')).toBeNull();
+  });
+});
+
+describe('browseGames', () => {
+  it('matches everything with an empty filter', () => {
+    expect(names({})).toHaveLength(GAMES.length);
+  });
+
+  it('finds a player on either side, ignoring case', () => {
+    expect(names({ player: 'kasparov' })).toEqual(['deep-blue', 'kasparov-topalov']);
+  });
+
+  it('searches the text of every column and the user tags', () => {
+    expect(names({ text: 'paris' })).toEqual(['opera']);
+    expect(names({ text: 'COMPUTERS' })).toEqual(['deep-blue']);
+  });
+
+  it('filters on event and site', () => {
+    expect(names({ event: 'hoogovens' })).toEqual(['kasparov-topalov']);
+    expect(names({ site: 'ENG' })).toEqual(['immortal']);
+  });
+
+  it('filters on a date range, counting partial dates as the whole period', () => {
+    expect(names({ dateFrom: '1850', dateTo: '1860' })).toEqual(['immortal', 'opera']);
+    expect(names({ dateFrom: '1858.06' })).toEqual(['opera', 'deep-blue', 'kasparov-topalov']);
+    expect(names({ dateTo: '1851.06.20' })).toEqual([]);
+  });
+
+  it('filters on an ECO prefix or range', () => {
+    expect(names({ eco: 'c' })).toEqual(['immortal', 'opera']);
+    expect(names({ eco: 'B20-B99' })).toEqual(['deep-blue']);
+    expect(names({ eco: 'B0-C3' })).toEqual(['immortal', 'deep-blue', 'kasparov-topalov']);
+  });
+
+  it('filters on the result and the average rating', () => {
+    expect(names({ result: '*' })).toEqual(['unknown']);
+    expect(names({ minElo: 2750 })).toEqual(['kasparov-topalov']);
+    expect(names({ maxElo: 2750 })).toEqual(['deep-blue']);
+  });
+
+  it('sorts by a column, with unknown values last either way', () => {
+    const sorted = (key: 'date' | 'elo' | 'white', direction: 'asc' | 'desc') =>
+      browseGames(GAMES, EMPTY_GAME_FILTER, { key, direction }).map((s) => s.game.name);
+    expect(sorted('date', 'asc')).toEqual([
+      'immortal',
+      'opera',
+      'deep-blue',
+      'kasparov-topalov',
+      'unknown',
+    ]);
+    expect(sorted('date', 'desc')).toEqual([
+      'kasparov-topalov',
+      'deep-blue',
+      'opera',
+      'immortal',
+      'unknown',
+    ]);
+    expect(sorted('elo', 'desc').slice(0, 2)).toEqual(['kasparov-topalov', 'deep-blue']);
+    expect(sorted('elo', 'asc').slice(2)).toEqual(['immortal', 'opera', 'unknown']);
+    expect(sorted('white', 'asc')).toEqual([
+      'immortal',
+      'deep-blue',
+      'kasparov-topalov',
+      'opera',
+      'unknown',
+    ]);
+  });
+});
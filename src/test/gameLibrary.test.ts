@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { parseGames } from '../assets/games';
+import { findLinkedGame, normalizeLabels, openGameLibrary, toParsedGame } from '../app/gameLibrary';
+import { EMPTY_URL_STATE } from '../app/urlState';
+
+const TWO_GAMES =
+  '[White "A"]\n[Black "B"]\n\n1. e4 e5 *\n\n[White "C"]\n[Black "D"]\n\n1. d4 d5 *';
+
+describe('game library', () => {
+  it('keeps uploaded games across reopening the database', async () => {
+    const factory = new IDBFactory();
+    const library = await openGameLibrary(factory);
+    const added = await library.add(parseGames('upload.pgn', TWO_GAMES));
+    expect(added.map((game) => game.name)).toEqual(['upload.pgn #1', 'upload.pgn #2']);
+    library.close();
+
+    const reopened = await openGameLibrary(factory);
+    const stored = await reopened.list();
+    expect(stored.map((game) => game.id)).toEqual(added.map((game) => game.id));
+    const games = stored.map(toParsedGame);
+    expect(games.map((game) => game?.parsed.tags?.White)).toEqual(['A', 'C']);
+    expect(games.map((game) => game?.name)).toEqual(['upload.pgn #1', 'upload.pgn #2']);
+    expect(games[1]?.libraryId).toBe(added[1].id);
+  });
+
+  it('stores each game on its own when the file could not be split', async () => {
+    const library = await openGameLibrary(new IDBFactory());
+    // parseGames falls back to giving every entry the whole file
+    const games = parseGames('joined.pgn', TWO_GAMES).map((game) => ({ ...game, pgn: TWO_GAMES }));
+    const added = await library.add(games);
+    expect(added.map((game) => toParsedGame(game)?.parsed.tags?.White)).toEqual(['A', 'C']);
+  });
+
+  it('renames, tags and deletes games', async () => {
+    const library = await openGameLibrary(new IDBFactory());
+    const [first, second] = await library.add(parseGames('upload.pgn', TWO_GAMES));
+
+    expect((await library.rename(first.id, '  My best game '))?.title).toBe('My best game');
+    await library.setLabels(first.id, ['endgame', ' Endgame', '', 'blitz']);
+    await library.remove(second.id);
+
+    const stored = await library.list();
+    expect(stored).toHaveLength(1);
+    expect(stored[0]).toMatchObject({ title: 'My best game', labels: ['endgame', 'blitz'] });
+    expect(toParsedGame(stored[0])).toMatchObject({
+      title: 'My best game',
+      labels: ['endgame', 'blitz'],
+    });
+
+    // A blank name goes back to showing the players
+    expect((await library.rename(first.id, ' '))?.title).toBeNull();
+    expect(await library.rename(12345, 'Missing')).toBeNull();
+  });
+
+  it('skips records whose PGN no longer parses', () => {
+    expect(
+      toParsedGame({
+        id: 1,
+        name: 'bad.pgn',
+        source: 'bad.pgn',
+        pgn: '1. e4 ]]',
+        title: null,
+        labels: [],
+        addedAt: 0,
+      })
+    ).toBeNull();
+  });
+
+  it('normalizes labels', () => {
+    expect(normalizeLabels([' a ', 'A', 'b', ''])).toEqual(['a', 'b']);
+  });
+});
+
+describe('findLinkedGame', () => {
+  const [bundled] = parseGames('famous.pgn', '[White "A"]\n[Black "B"]\n\n1. e4 e5 *');
+  const [upload] = parseGames('upload.pgn', '[White "C"]\n[Black "D"]\n\n1. d4 d5 *');
+  const local = { ...upload, libraryId: 3 };
+  const gameList = [bundled, local];
+
+  it("finds bundled games and this browser's uploads by key", () => {
+    const link = (game: string) =>
+      findLinkedGame({ ...EMPTY_URL_STATE, game }, gameList, [bundled]);
+    expect(link(bundled.name)).toBe(bundled);
+    expect(link('library:3')).toBe(local);
+  });
+
+  it('does not take a local game for one carried in the link under the same id', () => {
+    const state = { ...EMPTY_URL_STATE, game: 'library:3', pgn: 'sender-game' };
+    expect(findLinkedGame(state, gameList, [bundled])).toBeNull();
+    expect(findLinkedGame({ ...state, game: bundled.name }, gameList, [bundled])).toBe(bundled);
+  });
+});
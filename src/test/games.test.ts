@@ -1,10 +1,11 @@
 import { describe, it, expect } from 'vitest';
-import { Chess } from 'chess.js';
 import { parse } from '@mliebelt/pgn-parser';
 import type { ParseTree } from '@mliebelt/pgn-parser';
 import fs from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { groupBySource, parseGames } from '../assets/games';
+import { createStartingChess } from '../app/positionUtils';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const gamesDir = path.join(__dirname, '..', 'assets', 'games');
@@ -14,19 +15,27 @@ const pgnFiles = fs
   .filter((f) => f.endsWith('.pgn'))
   .map((f) => ({ name: f, content: fs.readFileSync(path.join(gamesDir, f), 'utf-8') }));
 
+// Every game in every file, so multi-game files are checked in full
+const pgnGames = pgnFiles.flatMap(({ name, content }) =>
+  (parse(content, { startRule: 'games' }) as ParseTree[]).map((tree, i) => ({
+    name: `${name} #${i + 1}`,
+    tree,
+  }))
+);
+
 describe('PGN games', () => {
   it.each(pgnFiles)('$name can be parsed', ({ content }) => {
     const parsed = parse(content, { startRule: 'games' }) as ParseTree[];
     expect(parsed.length).toBeGreaterThan(0);
-    expect(parsed[0].moves.length).toBeGreaterThan(0);
   });
 
-  it.each(pgnFiles)('$name can be played through without error', ({ content }) => {
-    const parsed = parse(content, { startRule: 'games' }) as ParseTree[];
-    const moves = parsed[0].moves;
+  it.each(pgnGames)('$name has moves', ({ tree }) => {
+    expect(tree.moves.length).toBeGreaterThan(0);
+  });
 
-    const chess = new Chess();
-    for (const move of moves) {
+  it.each(pgnGames)('$name can be played through without error', ({ tree }) => {
+    const chess = createStartingChess(tree);
+    for (const move of tree.moves) {
       const notation = move.notation?.notation;
       expect(notation).toBeTruthy();
       const result = chess.move(notation!);
@@ -34,12 +43,43 @@ describe('PGN games', () => {
     }
   });
 
-  it.each(pgnFiles)('$name has valid metadata tags', ({ content }) => {
-    const parsed = parse(content, { startRule: 'games' }) as ParseTree[];
-    const tags = parsed[0].tags;
+  it.each(pgnGames)('$name has valid metadata tags', ({ tree }) => {
+    const tags = tree.tags;
     expect(tags).toBeDefined();
     expect(tags?.White).toBeTruthy();
     expect(tags?.Black).toBeTruthy();
     expect(tags?.Result).toMatch(/^(1-0|0-1|1\/2-1\/2|\*)$/);
   });
 });
+
+describe('parseGames', () => {
+  const multiGamePgn = [
+    '[White "Alpha"]\n[Black "Beta"]\n[Result "1-0"]\n\n1. e4 e5 2. Qh5 Nc6 3. Bc4 Nf6 4. Qxf7# 1-0',
+    '[White "Gamma"]\n[Black "Delta"]\n[Result "0-1"]\n\n1. f3 e5 2. g4 Qh4# 0-1',
+  ].join('\n\n');
+
+  it('creates one entry per game in a multi-game file', () => {
+    const parsed = parseGames('tournament.pgn', multiGamePgn);
+    expect(parsed).toHaveLength(2);
+    expect(parsed.map((g) => g.name)).toEqual(['tournament.pgn #1', 'tournament.pgn #2']);
+    expect(parsed.every((g) => g.source === 'tournament.pgn')).toBe(true);
+    expect(parsed[1].parsed.tags?.White).toBe('Gamma');
+    expect(parsed[1].pgn).toContain('Qh4#');
+    expect(parsed[1].pgn).not.toContain('Qxf7#');
+  });
+
+  it('keeps the file name for single-game files', () => {
+    const [game] = parseGames('single.pgn', '[White "A"]\n[Black "B"]\n\n1. d4 d5 *');
+    expect(game.name).toBe('single.pgn');
+    expect(game.pgn).toContain('1. d4 d5');
+  });
+
+  it('groups games by source file', () => {
+    const groups = groupBySource([
+      ...parseGames('a.pgn', multiGamePgn),
+      ...parseGames('b.pgn', '1. c4 *'),
+    ]);
+    expect(groups.map((g) => g.source)).toEqual(['a.pgn', 'b.pgn']);
+    expect(groups[0].games).toHaveLength(2);
+  });
+});
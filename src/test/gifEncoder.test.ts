@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { createGifEncoder, createPalette, lzwEncode, toPaletteIndex } from '../app/gifEncoder';
+
+// Reference LZW decoder, written from the GIF spec rather than from the encoder
+function lzwDecode(data: Uint8Array, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let table: number[][] = [];
+  const reset = () => {
+    table = Array.from({ length: clearCode + 2 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+  };
+  const out: number[] = [];
+  let bitPos = 0;
+  const read = () => {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bitPos++) {
+      code |= ((data[bitPos >> 3] >> (bitPos & 7)) & 1) << i;
+    }
+    return code;
+  };
+  reset();
+  let previous: number[] | null = null;
+  for (;;) {
+    const code = read();
+    if (code === clearCode) {
+      reset();
+      previous = null;
+      continue;
+    }
+    if (code === endCode) break;
+    let entry: number[];
+    if (code < table.length) {
+      entry = table[code];
+      if (previous) table.push([...previous, entry[0]]);
+    } else {
+      entry = [...previous!, previous![0]];
+      table.push(entry);
+    }
+    out.push(...entry);
+    previous = entry;
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+  }
+  return out;
+}
+
+describe('toPaletteIndex', () => {
+  it('maps colors onto the matching palette entry', () => {
+    const palette = createPalette();
+    for (const [r, g, b] of [
+      [0, 0, 0],
+      [255, 255, 255],
+      [255, 0, 0],
+      [102, 170, 51],
+    ]) {
+      const i = toPaletteIndex(r, g, b) * 3;
+      expect(Math.abs(palette[i] - r)).toBeLessThanOrEqual(26);
+      expect(Math.abs(palette[i + 1] - g)).toBeLessThanOrEqual(22);
+      expect(Math.abs(palette[i + 2] - b)).toBeLessThanOrEqual(26);
+    }
+  });
+});
+
+describe('lzwEncode', () => {
+  it('round-trips through a decoder, including a table reset', () => {
+    // Pseudo-random pixels fill the 4096-entry table and force a clear code
+    let seed = 7;
+    const indices = Uint8Array.from({ length: 20000 }, () => {
+      seed = (seed * 48271) % 2147483647;
+      return seed % 200;
+    });
+    expect(lzwDecode(lzwEncode(indices), 8)).toEqual(Array.from(indices));
+  });
+
+  it('compresses runs of one color', () => {
+    const indices = new Uint8Array(10000).fill(42);
+    const encoded = lzwEncode(indices);
+    expect(encoded.length).toBeLessThan(200);
+    expect(lzwDecode(encoded, 8)).toEqual(Array.from(indices));
+  });
+});
+
+describe('createGifEncoder', () => {
+  const frame = (width: number, height: number, color: [number, number, number]) => {
+    const pixels = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < width * height; i++) pixels.set([...color, 255], i * 4);
+    return pixels;
+  };
+
+  // Offsets of the graphic control blocks and their frame delays
+  const frameDelays = (gif: Uint8Array) => {
+    const delays: number[] = [];
+    for (let i = 0; i < gif.length - 5; i++) {
+      if (gif[i] === 0x21 && gif[i + 1] === 0xf9 && gif[i + 2] === 0x04) {
+        delays.push(gif[i + 4] | (gif[i + 5] << 8));
+      }
+    }
+    return delays;
+  };
+
+  it('writes a looping GIF89a with the screen size', () => {
+    const encoder = createGifEncoder(4, 3, 10);
+    encoder.addFrame(frame(4, 3, [255, 0, 0]));
+    const gif = encoder.finish();
+    expect(new TextDecoder().decode(gif.subarray(0, 6))).toBe('GIF89a');
+    expect(gif[6] | (gif[7] << 8)).toBe(4);
+    expect(gif[8] | (gif[9] << 8)).toBe(3);
+    expect(new TextDecoder().decode(gif.subarray(16 + 768, 27 + 768))).toBe('NETSCAPE2.0');
+    expect(gif[gif.length - 1]).toBe(0x3b);
+  });
+
+  it('holds an unchanged frame instead of storing it again', () => {
+    const encoder = createGifEncoder(4, 4, 20);
+    encoder.addFrame(frame(4, 4, [0, 0, 0]));
+    encoder.addFrame(frame(4, 4, [0, 0, 0]));
+    encoder.addFrame(frame(4, 4, [255, 255, 255]));
+    expect(frameDelays(encoder.finish())).toEqual([10, 5]);
+  });
+
+  it('keeps the frame timing in step when the rate does not divide a second evenly', () => {
+    const encoder = createGifEncoder(2, 2, 30);
+    for (let i = 0; i < 6; i++) encoder.addFrame(frame(2, 2, i % 2 ? [0, 0, 0] : [0, 0, 255]));
+    const delays = frameDelays(encoder.finish());
+    expect(delays).toEqual([3, 4, 3, 3, 4, 3]);
+    expect(delays.reduce((a, b) => a + b)).toBe(20);
+  });
+});
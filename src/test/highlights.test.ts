@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { Chess } from 'chess.js';
+import {
+  getLegalTargets,
+  getSelectionHighlights,
+  getSquareHighlights,
+} from '../app/highlightUtils';
+
+const playAll = (sans: string[]) => {
+  const chess = new Chess();
+  sans.forEach((san) => chess.move(san));
+  return chess;
+};
+
+describe('square highlights', () => {
+  it('marks nothing before the first move', () => {
+    expect(getSquareHighlights(new Chess()).size).toBe(0);
+  });
+
+  it('marks the from and to squares of the last move', () => {
+    const highlights = getSquareHighlights(playAll(['e4', 'e5', 'Nf3']));
+    expect(Object.fromEntries(highlights)).toEqual({ g1: 'from', f3: 'to' });
+  });
+
+  it('marks the king of the side to move when in check', () => {
+    const highlights = getSquareHighlights(playAll(['e4', 'f5', 'Qh5+']));
+    expect(highlights.get('e8')).toBe('check');
+    expect(highlights.get('h5')).toBe('to');
+  });
+
+  it('marks checkmate distinctly from check', () => {
+    const highlights = getSquareHighlights(playAll(['f3', 'e5', 'g4', 'Qh4#']));
+    expect(highlights.get('e1')).toBe('checkmate');
+  });
+
+  it('follows the position after a move is taken back', () => {
+    const chess = playAll(['e4', 'f5', 'Qh5+']);
+    chess.undo();
+    expect(Object.fromEntries(getSquareHighlights(chess))).toEqual({ f7: 'from', f5: 'to' });
+  });
+});
+
+describe('selection highlights', () => {
+  it('lists the legal destinations of a piece of the side to move', () => {
+    const chess = new Chess();
+    expect(getLegalTargets(chess, 'g1').sort()).toEqual(['f3', 'h3']);
+    expect(getLegalTargets(chess, 'g8')).toEqual([]);
+    expect(getLegalTargets(chess, 'e4')).toEqual([]);
+  });
+
+  it('lists a promotion square once', () => {
+    const chess = new Chess('4k3/P7/8/8/8/8/8/4K3 w - - 0 1');
+    expect(getLegalTargets(chess, 'a7')).toEqual(['a8']);
+  });
+
+  it('marks the picked piece and its destinations over the last move', () => {
+    const chess = playAll(['e4', 'e5']);
+    const highlights = getSelectionHighlights(chess, 'f1');
+    expect(highlights.get('f1')).toBe('selected');
+    expect(highlights.get('c4')).toBe('destination');
+    expect(highlights.get('e5')).toBe('to');
+  });
+});
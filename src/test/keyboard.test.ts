@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { getShortcutAction } from '../app/keyboard';
+
+describe('keyboard shortcuts', () => {
+  it('maps playback keys', () => {
+    expect(getShortcutAction({ key: 'ArrowRight' })).toEqual({ type: 'stepForward' });
+    expect(getShortcutAction({ key: 'ArrowLeft' })).toEqual({ type: 'stepBack' });
+    expect(getShortcutAction({ key: ' ' })).toEqual({ type: 'togglePlay' });
+    expect(getShortcutAction({ key: 'Home' })).toEqual({ type: 'reset' });
+    expect(getShortcutAction({ key: 'End' })).toEqual({ type: 'end' });
+    expect(getShortcutAction({ key: 'f' })).toEqual({ type: 'flip' });
+    expect(getShortcutAction({ key: 'F' })).toEqual({ type: 'flip' });
+  });
+
+  it('maps number keys to the camera presets in menu order', () => {
+    expect(getShortcutAction({ key: '1' })).toEqual({ type: 'view', view: 'white' });
+    expect(getShortcutAction({ key: '2' })).toEqual({ type: 'view', view: 'black' });
+    expect(getShortcutAction({ key: '4' })).toEqual({ type: 'view', view: 'side' });
+    expect(getShortcutAction({ key: '5' })).toBeNull();
+    expect(getShortcutAction({ key: '0' })).toBeNull();
+  });
+
+  it('ignores other keys and browser shortcuts', () => {
+    expect(getShortcutAction({ key: 'x' })).toBeNull();
+    expect(getShortcutAction({ key: 'Enter' })).toBeNull();
+    expect(getShortcutAction({ key: 'f', ctrlKey: true })).toBeNull();
+    expect(getShortcutAction({ key: 'ArrowLeft', altKey: true })).toBeNull();
+    expect(getShortcutAction({ key: '1', metaKey: true })).toBeNull();
+  });
+
+  it('leaves keys to focused form controls', () => {
+    expect(getShortcutAction({ key: 'f', target: { tagName: 'INPUT' } })).toBeNull();
+    expect(getShortcutAction({ key: 'ArrowRight', target: { tagName: 'SELECT' } })).toBeNull();
+    expect(getShortcutAction({ key: '1', target: { isContentEditable: true } })).toBeNull();
+    // A focused button keeps Space but the other shortcuts still work
+    expect(getShortcutAction({ key: ' ', target: { tagName: 'BUTTON' } })).toBeNull();
+    expect(getShortcutAction({ key: 'ArrowRight', target: { tagName: 'BUTTON' } })).toEqual({
+      type: 'stepForward',
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { Chess } from 'chess.js';
+import { parse } from '@mliebelt/pgn-parser';
+import type { ParseTree } from '@mliebelt/pgn-parser';
+import {
+  createMainLine,
+  createUserMove,
+  enterVariation,
+  exitVariation,
+  getMainLine,
+  getMainLineIndex,
+  getVariations,
+  getVariationDepth,
+  playUserMove,
+  sharesPrefix,
+  type MoveLine,
+} from '../app/moveTree';
+
+const PGN = '1. e4 e5 (1... c5 2. Nf3 (2. c3 d5) d6) 2. Nf3 Nc6 *';
+
+const sans = (line: MoveLine) => line.moves.map((m) => m.notation.notation);
+
+const playLine = (line: MoveLine) => {
+  const chess = new Chess();
+  line.moves.forEach((m) => chess.move(m.notation.notation));
+  return chess.fen();
+};
+
+describe('move tree', () => {
+  const tree = (parse(PGN, { startRule: 'games' }) as ParseTree[])[0];
+
+  it('follows the main line by default', () => {
+    const main = createMainLine(tree);
+    expect(sans(main)).toEqual(['e4', 'e5', 'Nf3', 'Nc6']);
+    expect(main.parent).toBeNull();
+    expect(getVariationDepth(main)).toBe(0);
+  });
+
+  it('lists the variations for a move', () => {
+    const main = createMainLine(tree);
+    expect(getVariations(main, 0)).toHaveLength(0);
+    expect(getVariations(main, 1)).toHaveLength(1);
+    expect(getVariations(main, 1)[0][0].notation.notation).toBe('c5');
+  });
+
+  it('steps into a variation sharing the position before the branch', () => {
+    const main = createMainLine(tree);
+    const sicilian = enterVariation(main, 1, 0);
+    expect(sans(sicilian)).toEqual(['e4', 'c5', 'Nf3', 'd6']);
+    expect(sicilian.parent).toBe(main);
+    expect(sharesPrefix(main.moves, sicilian.moves, 1)).toBe(true);
+    expect(sharesPrefix(main.moves, sicilian.moves, 2)).toBe(false);
+    expect(() => playLine(sicilian)).not.toThrow();
+  });
+
+  it('steps into nested variations and back out one level at a time', () => {
+    const main = createMainLine(tree);
+    const sicilian = enterVariation(main, 1, 0);
+    const alapin = enterVariation(sicilian, 2, 0);
+    expect(sans(alapin)).toEqual(['e4', 'c5', 'c3', 'd5']);
+    expect(getVariationDepth(alapin)).toBe(2);
+    expect(getMainLine(alapin)).toBe(main);
+
+    const back = exitVariation(alapin);
+    expect(back?.line).toBe(sicilian);
+    expect(back?.moveIndex).toBe(1);
+    expect(exitVariation(main)).toBeNull();
+  });
+
+  it('maps a position in a variation back to where it left the main line', () => {
+    const main = createMainLine(tree);
+    const sicilian = enterVariation(main, 1, 0);
+    const alapin = enterVariation(sicilian, 2, 0);
+    expect(getMainLineIndex(main, 3)).toBe(3);
+    expect(getMainLineIndex(sicilian, 0)).toBe(0);
+    expect(getMainLineIndex(sicilian, 3)).toBe(0);
+    expect(getMainLineIndex(alapin, 3)).toBe(0);
+  });
+
+  it('ignores unknown variations', () => {
+    const main = createMainLine(tree);
+    expect(enterVariation(main, 0, 0)).toBe(main);
+    expect(createMainLine(undefined).moves).toEqual([]);
+  });
+});
+
+describe('user moves', () => {
+  const tree = (parse(PGN, { startRule: 'games' }) as ParseTree[])[0];
+
+  const userMove = (line: MoveLine, index: number, san: string) => {
+    const chess = new Chess();
+    line.moves.slice(0, index + 1).forEach((m) => chess.move(m.notation.notation));
+    return playUserMove(line, index, createUserMove(chess.move(san)));
+  };
+
+  it('follows the recorded move when the user plays it', () => {
+    const main = createMainLine(tree);
+    expect(userMove(main, 0, 'e5')).toBe(main);
+  });
+
+  it('enters a recorded variation when the user plays its first move', () => {
+    const main = createMainLine(tree);
+    const line = userMove(main, 0, 'c5');
+    expect(sans(line)).toEqual(['e4', 'c5', 'Nf3', 'd6']);
+    expect(line.userBranch).toBeFalsy();
+  });
+
+  it('starts a user branch for a new move and extends it', () => {
+    const main = createMainLine(tree);
+    const branch = userMove(main, 1, 'd4');
+    expect(sans(branch)).toEqual(['e4', 'e5', 'd4']);
+    expect(branch.userBranch).toBe(true);
+    expect(branch.parent).toBe(main);
+    expect(branch.branchIndex).toBe(2);
+
+    const extended = userMove(branch, 2, 'exd4');
+    expect(sans(extended)).toEqual(['e4', 'e5', 'd4', 'exd4']);
+    expect(extended.parent).toBe(main);
+    expect(extended.branchIndex).toBe(2);
+    expect(extended.moves[3].notation.strike).toBe('x');
+    expect(extended.moves[3].moveNumber).toBe(2);
+  });
+
+  it('branches from the recorded line when the user goes back before the split', () => {
+    const main = createMainLine(tree);
+    const branch = userMove(main, 1, 'd4');
+    const earlier = userMove(branch, 0, 'd5');
+    expect(sans(earlier)).toEqual(['e4', 'd5']);
+    expect(earlier.parent).toBe(main);
+    expect(earlier.branchIndex).toBe(1);
+  });
+
+  it('keeps the piece the user chose for a promotion', () => {
+    const fen = '7k/4P3/8/8/8/8/8/4K3 w - - 0 1';
+    const main = createMainLine(
+      (parse(`[SetUp "1"]\n[FEN "${fen}"]\n\n1. e8=Q+ *`, { startRule: 'games' }) as ParseTree[])[0]
+    );
+    const knight = new Chess(fen)
+      .moves({ square: 'e7', verbose: true })
+      .find((m) => m.promotion === 'n')!;
+    const branch = playUserMove(main, -1, createUserMove(knight));
+    expect(sans(branch)).toEqual(['e8=N']);
+    expect(branch.userBranch).toBe(true);
+    expect(branch.moves[0].notation.promotion).toBe('=N');
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { Chess, type Square } from 'chess.js';
+import { parse } from '@mliebelt/pgn-parser';
+import type { ParseTree } from '@mliebelt/pgn-parser';
+import {
+  describeMove,
+  getMoveComment,
+  getMoveNumberLabel,
+  getNagSymbols,
+  getReadingTime,
+  nagToSymbol,
+} from '../app/notation';
+import { parseColorArrows } from '../app/arrowUtils';
+import { addMarks, parseColorFields, type SquareHighlight } from '../app/highlightUtils';
+
+describe('notation', () => {
+  it('maps NAGs to their printed symbols', () => {
+    expect(nagToSymbol('$1')).toBe('!');
+    expect(nagToSymbol('$4')).toBe('??');
+    expect(nagToSymbol('$5')).toBe('!?');
+    expect(nagToSymbol('$999')).toBe('$999');
+  });
+
+  it('reads NAGs and comments attached to parsed moves', () => {
+    const [tree] = parse('1. e4!? {A sharp try} e5?? 2. Nf3 *', {
+      startRule: 'games',
+    }) as ParseTree[];
+    expect(getNagSymbols(tree.moves[0])).toBe('!?');
+    expect(getMoveComment(tree.moves[0])).toBe('A sharp try');
+    expect(getNagSymbols(tree.moves[1])).toBe('??');
+    expect(getNagSymbols(tree.moves[2])).toBe('');
+    expect(getMoveComment(tree.moves[2])).toBe('');
+  });
+
+  it('numbers moves from the starting position', () => {
+    expect(getMoveNumberLabel(0, 'w', 1)).toBe('1.');
+    expect(getMoveNumberLabel(1, 'w', 1)).toBe('');
+    expect(getMoveNumberLabel(1, 'w', 1, true)).toBe('1...');
+    expect(getMoveNumberLabel(2, 'w', 1)).toBe('2.');
+    expect(getMoveNumberLabel(0, 'b', 30, true)).toBe('30...');
+    expect(getMoveNumberLabel(1, 'b', 30)).toBe('31.');
+  });
+});
+
+describe('commentary', () => {
+  it('gives longer comments more reading time, within limits', () => {
+    expect(getReadingTime('')).toBe(0);
+    expect(getReadingTime('Good move')).toBeGreaterThan(1);
+    expect(getReadingTime('word '.repeat(10))).toBeGreaterThan(getReadingTime('Good move'));
+    expect(getReadingTime('word '.repeat(500))).toBe(10);
+  });
+
+  it('reads square and arrow annotations from comments', () => {
+    const tree = (
+      parse('1. e4 {[%csl Rd4,Ge5][%cal Gd2d4,Rg1f3] Good move} *', {
+        startRule: 'games',
+      }) as ParseTree[]
+    )[0];
+    const diag = tree.moves[0].commentDiag;
+    expect(getMoveComment(tree.moves[0])).toBe('Good move');
+    expect(Object.fromEntries(parseColorFields(diag.colorFields))).toEqual({
+      d4: 'markRed',
+      e5: 'markGreen',
+    });
+    expect(parseColorArrows(diag.colorArrows)).toEqual([
+      { from: 'd2', to: 'd4', kind: 'markGreen' },
+      { from: 'g1', to: 'f3', kind: 'markRed' },
+    ]);
+    expect(parseColorFields(undefined).size).toBe(0);
+    expect(parseColorArrows(['Xa1a2', 'Gz9a1'])).toEqual([]);
+  });
+
+  it('lets annotated squares replace last-move marks but not a check', () => {
+    const highlights = new Map<Square, SquareHighlight>([
+      ['e2', 'from'],
+      ['e8', 'check'],
+    ]);
+    const marks = parseColorFields(['Ye2', 'Re8', 'Bc3']);
+    const merged = Object.fromEntries(addMarks(highlights, marks));
+    expect(merged).toEqual({ e2: 'markYellow', e8: 'check', c3: 'markBlue' });
+  });
+});
+
+describe('spoken moves', () => {
+  const play = (fen: string, san: string) => describeMove(new Chess(fen).move(san));
+
+  it('names the side, piece and squares', () => {
+    expect(describeMove(new Chess().move('Nf3'))).toBe('White knight from g1 to f3');
+    expect(play('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1', 'e5')).toBe(
+      'Black pawn from e7 to e5'
+    );
+  });
+
+  it('describes captures, checks and mate', () => {
+    const chess = new Chess();
+    ['e4', 'e5', 'Bc4', 'Nc6', 'Qh5', 'Nf6'].forEach((san) => chess.move(san));
+    expect(describeMove(chess.move('Qxf7#'))).toBe(
+      'White queen from h5 takes pawn on f7, checkmate'
+    );
+    expect(play('4k3/8/8/8/8/8/8/R3K3 w - - 0 1', 'Ra8+')).toBe('White rook from a1 to a8, check');
+  });
+
+  it('describes castling, en passant and promotion', () => {
+    expect(play('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1', 'O-O')).toBe('White castles kingside');
+    expect(play('r3k2r/8/8/8/8/8/8/R3K2R b KQkq - 0 1', 'O-O-O')).toBe('Black castles queenside');
+    expect(play('4k3/8/8/3pP3/8/8/8/4K3 w - d6 0 2', 'exd6')).toBe(
+      'White pawn from e5 takes pawn on d6 en passant'
+    );
+    expect(play('1n5k/P7/8/8/8/8/8/4K3 w - - 0 1', 'axb8=N')).toBe(
+      'White pawn from a7 takes knight on b8, promotes to knight'
+    );
+  });
+});
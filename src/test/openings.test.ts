@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { Chess } from 'chess.js';
+import { parseGames } from '../assets/games';
+import { ECO_LINES } from '../assets/openings';
+import {
+  detectOpening,
+  findOpening,
+  toPositionKey,
+  trackOpenings,
+  withDetectedEco,
+} from '../app/openings';
+
+// Positions after each move of a line played from the standard start
+const fensAfter = (moves: string) => {
+  const chess = new Chess();
+  return moves.split(' ').map((san) => chess.move(san).after);
+};
+
+const START = new Chess().fen();
+
+describe('ECO_LINES', () => {
+  it('replays every line legally', () => {
+    for (const [eco, , moves] of ECO_LINES) {
+      expect(eco).toMatch(/^[A-E]\d\d$/);
+      expect(() => fensAfter(moves)).not.toThrow();
+    }
+  });
+});
+
+describe('toPositionKey', () => {
+  it('drops the move counters', () => {
+    expect(toPositionKey(START)).toBe('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq -');
+  });
+});
+
+describe('findOpening', () => {
+  it('names a position from the table', () => {
+    const fens = fensAfter('e4 e5 f4 exf4');
+    expect(findOpening(fens[3])).toEqual({ eco: 'C33', name: "King's Gambit Accepted" });
+  });
+
+  it('matches a transposition to the same position', () => {
+    const fens = fensAfter('Nf3 Nf6 c4 e6 d4 Bb4+');
+    expect(findOpening(fens[5])?.name).toBe('Bogo-Indian Defense');
+  });
+
+  it('returns null off the table', () => {
+    expect(findOpening(fensAfter('a4 h5')[1])).toBeNull();
+  });
+});
+
+describe('trackOpenings', () => {
+  it('carries the last named opening forward and finds where the line left book', () => {
+    const moves = 'e4 e5 Nf3 Nc6 Bc4 Bc5 a3 a6';
+    const { openings, bookExitIndex } = trackOpenings(START, fensAfter(moves));
+    expect(openings[0]?.name).toBe("King's Pawn Game");
+    expect(openings[5]?.name).toBe('Italian Game: Giuoco Piano');
+    expect(openings[7]?.name).toBe('Italian Game: Giuoco Piano');
+    expect(bookExitIndex).toBe(6);
+  });
+
+  it('keeps a line in book when it transposes back in', () => {
+    // 1. d4 e6 is its own line; 2. c4 Nf6 reaches the Indian Defense by another order
+    const { openings, bookExitIndex } = trackOpenings(START, fensAfter('d4 e6 c4 Nf6'));
+    expect(openings[3]?.eco).toBe('E00');
+    expect(bookExitIndex).toBeNull();
+  });
+
+  it('reports nothing for a position the table never reaches', () => {
+    const start = '8/8/4k3/8/8/3K4/4P3/8 w - - 0 1';
+    const chess = new Chess(start);
+    const { openings, bookExitIndex } = trackOpenings(start, [chess.move('e4').after]);
+    expect(openings).toEqual([null]);
+    expect(bookExitIndex).toBeNull();
+  });
+});
+
+describe('withDetectedEco', () => {
+  const pgn = '[White "A"]\n[Black "B"]\n\n1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 4. e3 O-O 5. Bd3 d5 *';
+
+  it('fills in a missing ECO and Opening from the moves', () => {
+    const [game] = parseGames('upload', pgn);
+    expect(detectOpening(game.parsed)?.eco).toBe('E40');
+    const filled = withDetectedEco(game);
+    expect(filled.parsed.tags?.ECO).toBe('E40');
+    expect(filled.parsed.tags?.Opening).toBe('Nimzo-Indian Defense: Normal Variation');
+    expect(filled.pgn).toContain('[ECO "E40"]');
+  });
+
+  it('leaves a game that already has an ECO alone', () => {
+    const [game] = parseGames('upload', `[ECO "E41"]\n${pgn}`);
+    expect(withDetectedEco(game)).toBe(game);
+  });
+});
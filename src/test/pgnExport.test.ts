@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { Chess } from 'chess.js';
+import { parse } from '@mliebelt/pgn-parser';
+import type { ParseTree } from '@mliebelt/pgn-parser';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  createMainLine,
+  createUserMove,
+  enterVariation,
+  playUserMove,
+  withUserLine,
+  type PgnMove,
+} from '../app/moveTree';
+import { gameToPgn, lineToPgn, tagValue } from '../app/pgnExport';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const gamesDir = path.join(__dirname, '..', 'assets', 'games');
+
+const parseAll = (pgn: string) => parse(pgn, { startRule: 'games' }) as ParseTree[];
+const parseOne = (pgn: string) => parseAll(pgn)[0];
+
+// Moves, NAGs, comments and variations, in a form that can be compared across parses
+const outline = (moves: PgnMove[]): unknown[] =>
+  moves.map((m) => ({
+    san: m.notation.notation,
+    nag: m.nag ?? [],
+    before: m.commentMove ?? '',
+    after: m.commentAfter ?? '',
+    fields: m.commentDiag?.colorFields ?? [],
+    arrows: m.commentDiag?.colorArrows ?? [],
+    variations: (m.variations ?? []).map(outline),
+  }));
+
+const tagText = (tree: ParseTree) =>
+  Object.fromEntries(
+    Object.entries(tree.tags ?? {})
+      .filter(([key]) => key !== 'messages')
+      .map(([key, value]) => [key, tagValue(value)])
+  );
+
+const files = fs
+  .readdirSync(gamesDir)
+  .filter((f) => f.endsWith('.pgn'))
+  .map((f) => ({ name: f, content: fs.readFileSync(path.join(gamesDir, f), 'utf-8') }));
+
+describe('PGN export', () => {
+  it.each(files)('$name survives a round trip', ({ content }) => {
+    const originals = parseAll(content);
+    for (const original of originals) {
+      const written = gameToPgn(original);
+      const reparsed = parseOne(written);
+      expect(outline(reparsed.moves)).toEqual(outline(original.moves));
+      expect(tagText(reparsed)).toMatchObject(tagText(original));
+      written.split('\n').forEach((row) => expect(row.length).toBeLessThanOrEqual(80));
+    }
+  });
+
+  it('writes the roster first, then comments, NAGs, variations and the result', () => {
+    const original = parseOne(
+      '[White "A"]\n[ECO "C20"]\n[Black "B"]\n[Result "1-0"]\n\n' +
+        '{Opening} 1. e4 $1 {[%csl Rd4][%cal Gd2d4] Best by test} (1. d4 d5 $2) 1... e5 2. Nf3 1-0'
+    );
+    const written = gameToPgn(original);
+    expect(written.split('\n').slice(0, 8)).toEqual([
+      '[Event "?"]',
+      '[Site "?"]',
+      '[Date "????.??.??"]',
+      '[Round "?"]',
+      '[White "A"]',
+      '[Black "B"]',
+      '[Result "1-0"]',
+      '[ECO "C20"]',
+    ]);
+    expect(written.replace(/\n/g, ' ')).toContain(
+      '{Opening} 1. e4 $1 {[%csl Rd4] [%cal Gd2d4] Best by test} (1. d4 d5 $2) 1... e5 2. Nf3 1-0'
+    );
+  });
+
+  it('keeps a FEN start and numbers a black first move', () => {
+    const fen = '7K/8/k1P5/7p/8/8/8/8 b - - 0 3';
+    const tree = parseOne(`[SetUp "1"]\n[FEN "${fen}"]\n\n3... h4 *`);
+    expect(gameToPgn(tree)).toContain(`[FEN "${fen}"]`);
+    expect(gameToPgn(tree)).toContain('3... h4 *');
+  });
+
+  it('escapes quotes in tag values', () => {
+    const tree = parseOne('[Event "The \\"Immortal\\" Game"]\n\n1. e4 *');
+    expect(gameToPgn(tree)).toContain('[Event "The \\"Immortal\\" Game"]');
+    expect(parseOne(gameToPgn(tree)).tags?.Event).toBe('The "Immortal" Game');
+  });
+});
+
+describe('line export', () => {
+  const userMove = (tree: ParseTree, index: number, san: string) => {
+    const chess = new Chess();
+    tree.moves.slice(0, index + 1).forEach((m) => chess.move(m.notation.notation));
+    return playUserMove(createMainLine(tree), index, createUserMove(chess.move(san)));
+  };
+
+  it('writes a user branch as a playable game', () => {
+    const tree = parseOne('[White "A"]\n[Black "B"]\n[Result "1-0"]\n\n1. e4 e5 2. Nf3 1-0');
+    const pgn = lineToPgn(tree, userMove(tree, 0, 'c5').moves);
+
+    expect(pgn).toContain('[White "A"]');
+    expect(pgn).toContain('[Event "?"]');
+    expect(pgn).toContain('[Result "*"]');
+    expect(pgn.trim().endsWith('1. e4 c5 *')).toBe(true);
+    expect(parseOne(pgn).moves.map((m) => m.notation.notation)).toEqual(['e4', 'c5']);
+  });
+
+  it('wraps long move text', () => {
+    const tree = parseOne(
+      '1. Nf3 Nf6 2. Ng1 Ng8 3. Nf3 Nf6 4. Ng1 Ng8 5. Nf3 Nf6 6. Ng1 Ng8 7. Nf3 Nf6 8. Ng1 Ng8 9. Nf3 Nf6 *'
+    );
+    const movetext = lineToPgn(tree, tree.moves).split('\n\n')[1];
+    expect(movetext.split('\n').length).toBeGreaterThan(1);
+    movetext.split('\n').forEach((row) => expect(row.length).toBeLessThanOrEqual(80));
+  });
+
+  it('adds a user branch to the game as a variation', () => {
+    const tree = parseOne('1. e4 e5 (1... c5 2. Nf3) 2. Nf3 *');
+    const edited = withUserLine(tree, userMove(tree, 0, 'd5'));
+    expect(gameToPgn(edited)).toContain('1. e4 e5 (1... c5 2. Nf3) (1... d5) 2. Nf3 *');
+    // The original tree is left alone
+    expect(tree.moves[1].variations).toHaveLength(1);
+  });
+
+  it('adds a user branch inside a variation, or past the end of a line', () => {
+    const tree = parseOne('1. e4 e5 (1... c5 2. Nf3) 2. Nf3 *');
+    const sicilian = enterVariation(createMainLine(tree), 1, 0);
+    const chess = new Chess();
+    ['e4', 'c5', 'Nf3'].forEach((san) => chess.move(san));
+    const extended = playUserMove(sicilian, 2, createUserMove(chess.move('d6')));
+    expect(gameToPgn(withUserLine(tree, extended))).toContain('(1... c5 2. Nf3 d6) 2. Nf3 *');
+
+    const past = userMove(tree, 2, 'Nc6');
+    expect(gameToPgn(withUserLine(tree, past))).toContain('2. Nf3 Nc6 *');
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { parse } from '@mliebelt/pgn-parser';
+import type { ParseTree } from '@mliebelt/pgn-parser';
+import { checkPgnFile, describeIssue, hasIssues } from '../app/pgnValidation';
+
+const sans = (tree: ParseTree) => tree.moves.map((m) => m.notation.notation);
+
+describe('PGN validation', () => {
+  it('passes a clean file through untouched', () => {
+    const check = checkPgnFile('clean.pgn', '[White "A"]\n\n1. e4 e5 2. Nf3 *');
+    expect(hasIssues(check)).toBe(false);
+    expect(check.games[0].legalGame).toBe(check.games[0].game);
+  });
+
+  it('reports the line and column of a syntax error', () => {
+    const check = checkPgnFile('broken.pgn', '[White "A"]\n\n1. e4 e5 2. Nf3 ]] Nc6 *');
+    expect(check.syntaxError).toMatchObject({ kind: 'syntax', line: 3, column: 17 });
+    expect(describeIssue(check.syntaxError!)).toBe('Line 3, column 17: unexpected "]"');
+    expect(check.games).toEqual([]);
+  });
+
+  it('names the first illegal move and keeps the legal prefix', () => {
+    const bad = checkPgnFile('illegal.pgn', '1. e4 e5 2. Nf3 Nc6 3. Bb5 Nf3 4. O-O *');
+    const [result] = bad.games;
+    expect(result.issues).toEqual([
+      { kind: 'illegalMove', moveNumber: '3...', san: 'Nf3', variation: false },
+    ]);
+    expect(describeIssue(result.issues[0])).toBe('Move 3... Nf3 is illegal');
+    expect(sans(result.legalGame!.parsed)).toEqual(['e4', 'e5', 'Nf3', 'Nc6', 'Bb5']);
+    // The trimmed game is written back out so it can be saved or reloaded
+    const reparsed = (parse(result.legalGame!.pgn, { startRule: 'games' }) as ParseTree[])[0];
+    expect(sans(reparsed)).toEqual(['e4', 'e5', 'Nf3', 'Nc6', 'Bb5']);
+  });
+
+  it('trims illegal variations without dropping the main line', () => {
+    const check = checkPgnFile('variation.pgn', '1. e4 e5 (1... Nf3 Nc6) (1... c5) 2. Nf3 *');
+    const [game] = check.games;
+    expect(game.issues).toEqual([
+      { kind: 'illegalMove', moveNumber: '1...', san: 'Nf3', variation: true },
+    ]);
+    expect(describeIssue(game.issues[0])).toBe('In a variation, move 1... Nf3 is illegal');
+    const moves = game.legalGame!.parsed.moves;
+    expect(moves).toHaveLength(3);
+    expect(moves[1].variations.map((v) => v[0].notation.notation)).toEqual(['c5']);
+  });
+
+  it('reports games that cannot be loaded at all', () => {
+    const check = checkPgnFile('empty.pgn', '1. Nf6 e5 *');
+    expect(check.games[0].legalGame).toBeNull();
+    expect(describeIssue(check.games[0].issues[0])).toBe('Move 1. Nf6 is illegal');
+
+    const fen = checkPgnFile('fen.pgn', '[SetUp "1"]\n[FEN "not a fen"]\n\n1. e4 *');
+    expect(fen.games[0].issues).toEqual([
+      expect.objectContaining({ kind: 'invalidFen', fen: 'not a fen' }),
+    ]);
+    // 1. e4 is only legal from the standard position the bad FEN would fall back to
+    expect(fen.games[0].legalGame).toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as THREE from 'three';
+import type { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import {
+  normalizePieceModel,
+  PIECE_BASE_SIZE,
+  PIECE_HEIGHTS,
+  PIECE_TYPES,
+} from '../app/pieceUtils';
+import { findPieceNodes, getPieceTypeFromName, loadPieceModels } from '../app/scene/pieces';
+import { createFallbackPieceModel } from '../app/scene/fallbackPieces';
+
+// A cone standing on its wide base, as a piece would
+const makeCone = (radius: number, height: number) => {
+  const root = new THREE.Group();
+  root.add(new THREE.Mesh(new THREE.ConeGeometry(radius, height, 16)));
+  return root;
+};
+
+const boundsOf = (object: THREE.Object3D) => new THREE.Box3().setFromObject(object, true);
+
+// Height of the widest points of a model, to tell which end is the base
+const widestY = (object: THREE.Object3D) => {
+  object.updateMatrixWorld(true);
+  let best = { width: -1, y: 0 };
+  object.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) return;
+    const position = child.geometry.getAttribute('position');
+    for (let i = 0; i < position.count; i++) {
+      const p = new THREE.Vector3()
+        .fromBufferAttribute(position, i)
+        .applyMatrix4(child.matrixWorld);
+      const width = Math.hypot(p.x, p.z);
+      if (width > best.width + 1e-6) best = { width, y: p.y };
+    }
+  });
+  return best.y;
+};
+
+describe('normalizePieceModel', () => {
+  it('stands the piece on the origin at the height of its type', () => {
+    const piece = normalizePieceModel(makeCone(1, 4), 'queen');
+    const bounds = boundsOf(piece);
+    expect(bounds.min.y).toBeCloseTo(0);
+    expect(bounds.max.y).toBeCloseTo(PIECE_HEIGHTS.queen);
+    expect((bounds.min.x + bounds.max.x) / 2).toBeCloseTo(0);
+    expect((bounds.min.z + bounds.max.z) / 2).toBeCloseTo(0);
+  });
+
+  it('leaves the returned group without a transform of its own', () => {
+    const piece = normalizePieceModel(makeCone(1, 4), 'pawn', Math.PI / 2);
+    expect(piece.position.toArray()).toEqual([0, 0, 0]);
+    expect(piece.rotation.toArray().slice(0, 3)).toEqual([0, 0, 0]);
+    expect(piece.scale.toArray()).toEqual([1, 1, 1]);
+  });
+
+  it('stands up a model drawn with Z up', () => {
+    const model = makeCone(1, 4);
+    model.rotation.x = Math.PI / 2;
+    const bounds = boundsOf(normalizePieceModel(model, 'bishop'));
+    expect(bounds.max.y - bounds.min.y).toBeCloseTo(PIECE_HEIGHTS.bishop);
+  });
+
+  it('turns an upside down model onto its base', () => {
+    const model = makeCone(1, 4);
+    model.rotation.x = Math.PI;
+    const piece = normalizePieceModel(model, 'rook');
+    expect(widestY(piece)).toBeCloseTo(0);
+  });
+
+  it('keeps a wide base within a square', () => {
+    const bounds = boundsOf(normalizePieceModel(makeCone(1.4, 3), 'king'));
+    const size = bounds.getSize(new THREE.Vector3());
+    expect(Math.max(size.x, size.z)).toBeCloseTo(PIECE_BASE_SIZE);
+    expect(size.y).toBeLessThan(PIECE_HEIGHTS.king);
+  });
+
+  it('refuses a model without meshes', () => {
+    expect(() => normalizePieceModel(new THREE.Group(), 'pawn')).toThrow();
+  });
+});
+
+describe('getPieceTypeFromName', () => {
+  it('finds the piece in file and node names', () => {
+    expect(getPieceTypeFromName('White_Knight.glb')).toBe('knight');
+    expect(getPieceTypeFromName('king_asm')).toBe('king');
+    expect(getPieceTypeFromName('PAWN.gltf')).toBe('pawn');
+    expect(getPieceTypeFromName('board.glb')).toBeNull();
+  });
+});
+
+describe('findPieceNodes', () => {
+  it('takes the outermost node for each piece, keeping its place in the file', () => {
+    const root = new THREE.Group();
+    const set = new THREE.Group();
+    set.scale.setScalar(2);
+    root.add(set);
+    const king = new THREE.Group();
+    king.name = 'king_asm';
+    king.position.set(1, 0, 0);
+    const kingMesh = new THREE.Mesh(new THREE.BoxGeometry());
+    kingMesh.name = 'king';
+    king.add(kingMesh);
+    const pawn = new THREE.Mesh(new THREE.BoxGeometry());
+    pawn.name = 'Pawn.001';
+    set.add(king, pawn);
+
+    const nodes = findPieceNodes(root);
+    expect(Object.keys(nodes).sort()).toEqual(['king', 'pawn']);
+    expect(nodes.king?.name).toBe('king_asm');
+    expect(nodes.king?.position.toArray()).toEqual([2, 0, 0]);
+    expect(nodes.king?.scale.toArray()).toEqual([2, 2, 2]);
+    expect(nodes.king?.parent).toBeNull();
+  });
+});
+
+describe('createFallbackPieceModel', () => {
+  it('gives every piece a stand-in that stands on its base', () => {
+    for (const type of PIECE_TYPES) {
+      const piece = normalizePieceModel(createFallbackPieceModel(type), type);
+      const bounds = boundsOf(piece);
+      expect(bounds.max.y).toBeCloseTo(PIECE_HEIGHTS[type]);
+      expect(widestY(piece)).toBeLessThan(PIECE_HEIGHTS[type] * 0.15);
+    }
+  });
+});
+
+describe('loadPieceModels', () => {
+  it('fills in pieces whose models fail to load', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const loader = {
+      loadAsync: (url: string) =>
+        url.includes('knight')
+          ? Promise.reject(new Error('Not found'))
+          : Promise.resolve({ scene: makeCone(1, 4) }),
+    } as unknown as GLTFLoader;
+
+    const models = await loadPieceModels(loader, 'pieces/');
+    expect(Object.keys(models).sort()).toEqual([...PIECE_TYPES].sort());
+    expect(boundsOf(models.knight).max.y).toBeCloseTo(PIECE_HEIGHTS.knight);
+    expect(console.error).toHaveBeenCalledTimes(1);
+    vi.restoreAllMocks();
+  });
+});
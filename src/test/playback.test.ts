@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Chess } from 'chess.js';
+import {
+  createPlaybackController,
+  getMoveAnimationDuration,
+  getUndoAnimationDuration,
+  FIRST_MOVE_DELAY,
+  PAUSE_BETWEEN_MOVES,
+  type MoveDirection,
+  type PlaybackEvent,
+} from '../app/playback';
+import {
+  ANIMATION_DURATION,
+  CAPTURE_ANIMATION_DURATION,
+  PROMOTION_FLASH_DURATION,
+} from '../app/pieceUtils';
+
+describe('getMoveAnimationDuration', () => {
+  it('derives the animation length from the move type', () => {
+    const chess = new Chess();
+    const quiet = chess.move('e4');
+    const knight = chess.move('Nf6');
+    expect(getMoveAnimationDuration(quiet)).toBe(ANIMATION_DURATION);
+    expect(getMoveAnimationDuration(knight)).toBe(ANIMATION_DURATION);
+
+    const capture = new Chess('4k3/8/8/3p4/4P3/8/8/4K3 w - - 0 1').move('exd5');
+    expect(getMoveAnimationDuration(capture)).toBe(CAPTURE_ANIMATION_DURATION);
+    expect(getUndoAnimationDuration(capture)).toBeCloseTo(1.8);
+    expect(getUndoAnimationDuration(quiet)).toBe(ANIMATION_DURATION);
+
+    const castle = new Chess('4k3/8/8/8/8/8/8/4K2R w K - 0 1').move('O-O');
+    expect(getMoveAnimationDuration(castle)).toBe(ANIMATION_DURATION);
+
+    const promotion = new Chess('4k3/P7/8/8/8/8/8/4K3 w - - 0 1').move('a8=Q');
+    expect(getMoveAnimationDuration(promotion)).toBe(ANIMATION_DURATION + PROMOTION_FLASH_DURATION);
+
+    expect(getMoveAnimationDuration(undefined)).toBe(ANIMATION_DURATION);
+  });
+});
+
+describe('createPlaybackController', () => {
+  const durations = [1, 2.4, 1];
+  const undoDurations = [1, 1.8, 1];
+  let changes: { index: number; direction: MoveDirection }[];
+
+  const create = () =>
+    createPlaybackController({
+      getMoveCount: () => durations.length,
+      getMoveDuration: (index, direction) =>
+        direction === 'forward' ? durations[index] : undoDurations[index],
+      onIndexChange: (index, direction) => changes.push({ index, direction }),
+    });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    changes = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('steps forward and resolves once the move has animated', async () => {
+    const controller = create();
+    let done = false;
+    controller.stepForward().then(() => (done = true));
+    expect(changes).toEqual([{ index: 0, direction: 'forward' }]);
+    expect(controller.getState()).toEqual({ index: 0, playing: false, animating: true });
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(done).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(done).toBe(true);
+    expect(controller.getState().animating).toBe(false);
+  });
+
+  it('plays each move only after the previous animation completes', async () => {
+    const controller = create();
+    const events: PlaybackEvent[] = [];
+    controller.subscribe((event) => events.push(event));
+    controller.play();
+    expect(controller.getState().playing).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(FIRST_MOVE_DELAY * 1000);
+    expect(controller.getState().index).toBe(0);
+
+    // First move animates for 1s, then rests before the capture
+    await vi.advanceTimersByTimeAsync(1000 + PAUSE_BETWEEN_MOVES * 1000);
+    expect(controller.getState().index).toBe(1);
+
+    // The capture takes longer, so the third move waits for it
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(controller.getState().index).toBe(1);
+    await vi.advanceTimersByTimeAsync(400 + PAUSE_BETWEEN_MOVES * 1000);
+    expect(controller.getState().index).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(1000 + PAUSE_BETWEEN_MOVES * 1000);
+    expect(controller.getState().playing).toBe(false);
+    expect(events.filter((e) => e.type === 'moveComplete')).toHaveLength(3);
+    expect(events[events.length - 1]).toEqual({ type: 'ended' });
+  });
+
+  it('pauses without cutting the current animation short', async () => {
+    const controller = create();
+    controller.play();
+    await vi.advanceTimersByTimeAsync(FIRST_MOVE_DELAY * 1000);
+    controller.pause();
+    expect(controller.getState()).toEqual({ index: 0, playing: false, animating: true });
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(controller.getState().index).toBe(0);
+    expect(controller.getState().animating).toBe(false);
+  });
+
+  it('seeks and resets without animating', () => {
+    const controller = create();
+    controller.seek(2);
+    expect(controller.getState().animating).toBe(false);
+    controller.reset();
+    controller.stepBack();
+    expect(changes).toEqual([
+      { index: 2, direction: 'jump' },
+      { index: -1, direction: 'jump' },
+    ]);
+    expect(controller.getState().animating).toBe(false);
+  });
+
+  it('animates stepping back for as long as the move takes to undo', async () => {
+    const controller = create();
+    controller.seek(1);
+    let done = false;
+    controller.stepBack().then(() => (done = true));
+    expect(changes[changes.length - 1]).toEqual({ index: 0, direction: 'backward' });
+    expect(controller.getState().animating).toBe(true);
+    // Undoing the capture at index 1 uses its reverse duration
+    await vi.advanceTimersByTimeAsync(1799);
+    expect(done).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(done).toBe(true);
+  });
+
+  it('scales move timing with the playback speed', async () => {
+    const controller = create();
+    controller.setSpeed(4);
+    let done = false;
+    controller.stepForward().then(() => (done = true));
+    await vi.advanceTimersByTimeAsync(250);
+    expect(done).toBe(true);
+
+    controller.setSpeed(0.25);
+    done = false;
+    controller.stepForward().then(() => (done = true));
+    await vi.advanceTimersByTimeAsync(2400 * 4 - 1);
+    expect(done).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(done).toBe(true);
+
+    controller.setSpeed(0);
+    expect(controller.getSpeed()).toBe(1);
+  });
+
+  it('restarts from the beginning when played at the end', async () => {
+    const controller = create();
+    controller.seek(10);
+    expect(controller.getState().index).toBe(2);
+    controller.play();
+    expect(controller.getState().index).toBe(-1);
+    await vi.advanceTimersByTimeAsync(FIRST_MOVE_DELAY * 1000);
+    expect(controller.getState().index).toBe(0);
+    controller.dispose();
+  });
+  it('rests longer on moves that need reading time, regardless of speed', async () => {
+    const controller = createPlaybackController({
+      getMoveCount: () => durations.length,
+      getMoveDuration: () => 1,
+      getMovePause: (index) => (index === 0 ? 3 : 0),
+      onIndexChange: (index, direction) => changes.push({ index, direction }),
+    });
+    controller.setSpeed(2);
+    controller.play();
+    await vi.advanceTimersByTimeAsync((FIRST_MOVE_DELAY * 1000) / 2);
+    expect(controller.getState().index).toBe(0);
+
+    // Animation and rest are halved, the reading pause is not
+    await vi.advanceTimersByTimeAsync(500 + (PAUSE_BETWEEN_MOVES * 1000) / 2 + 2999);
+    expect(controller.getState().index).toBe(0);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(controller.getState().index).toBe(1);
+    controller.dispose();
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { Chess, DEFAULT_POSITION } from 'chess.js';
+import { parse } from '@mliebelt/pgn-parser';
+import type { ParseTree } from '@mliebelt/pgn-parser';
+import {
+  createStartingChess,
+  getStartingFen,
+  getStartingTurn,
+  isCustomStartingPosition,
+} from '../app/positionUtils';
+import { getMissingMaterial } from '../app/graveyardUtils';
+
+const parseOne = (pgn: string) => (parse(pgn, { startRule: 'games' }) as ParseTree[])[0];
+
+const countBy = (pieces: { type: string; color: string }[]) =>
+  pieces.reduce<Record<string, number>>((acc, p) => {
+    const key = `${p.color}${p.type}`;
+    acc[key] = (acc[key] || 0) + 1;
+    return acc;
+  }, {});
+
+describe('starting position', () => {
+  it('uses the standard position without a FEN tag', () => {
+    const tree = parseOne('[White "A"]\n[Black "B"]\n\n1. e4 *');
+    expect(getStartingFen(tree)).toBe(DEFAULT_POSITION);
+    expect(isCustomStartingPosition(tree)).toBe(false);
+    expect(getStartingTurn(tree)).toBe('w');
+  });
+
+  it('honors SetUp/FEN tags', () => {
+    const fen = '4k3/8/8/8/8/8/4P3/4K3 b - - 0 1';
+    const tree = parseOne(`[SetUp "1"]\n[FEN "${fen}"]\n\n1... Kd7 *`);
+    expect(getStartingFen(tree)).toBe(fen);
+    expect(isCustomStartingPosition(tree)).toBe(true);
+    expect(getStartingTurn(tree)).toBe('b');
+    const chess = createStartingChess(tree);
+    expect(chess.move(tree.moves[0].notation.notation)).toBeTruthy();
+  });
+
+  it('falls back to the standard position for an invalid FEN', () => {
+    const tree = parseOne('[SetUp "1"]\n[FEN "not a fen"]\n\n1. e4 *');
+    expect(createStartingChess(tree).fen()).toBe(DEFAULT_POSITION);
+  });
+});
+
+describe('getMissingMaterial', () => {
+  it('reports nothing for the standard position', () => {
+    expect(getMissingMaterial(new Chess())).toEqual([]);
+  });
+
+  it('reports everything but the kings and the remaining pawns in an endgame', () => {
+    const missing = countBy(getMissingMaterial(new Chess('7K/8/k1P5/7p/8/8/8/8 w - - 0 1')));
+    expect(missing).toEqual({
+      wq: 1,
+      wr: 2,
+      wb: 2,
+      wn: 2,
+      wp: 7,
+      bq: 1,
+      br: 2,
+      bb: 2,
+      bn: 2,
+      bp: 7,
+    });
+  });
+
+  it('counts extra promoted pieces against the pawns', () => {
+    // White has two queens and seven pawns: the a-pawn promoted, so only a rook is missing
+    const missing = getMissingMaterial(
+      new Chess('rnbqkbnr/pppppppp/8/8/8/8/1PPPPPPP/RNBQKBNQ w Qkq - 0 1')
+    );
+    expect(countBy(missing)).toEqual({ wr: 1 });
+  });
+});
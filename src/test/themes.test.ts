@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { THEME_NAMES, THEMES } from '../app/themes';
+import { applySurfaceStyle, texturesToDispose, type LoadedTextures } from '../app/materials';
+import { applyLightRig, buildLights } from '../app/lighting';
+import { isLightSquare } from '../app/scene/board';
+
+const makeTextures = (): LoadedTextures => ({
+  lightWood: new THREE.Texture(),
+  darkWood: new THREE.Texture(),
+  redWood: new THREE.Texture(),
+  whiteGranite: new THREE.Texture(),
+  blueGranite: new THREE.Texture(),
+  stone: new THREE.Texture(),
+});
+
+describe('themes', () => {
+  it('ships the four themes with their own names', () => {
+    expect(THEME_NAMES).toEqual(['classic', 'marble', 'tournament', 'contrast']);
+    const labels = THEME_NAMES.map((name) => THEMES[name].label);
+    expect(new Set(labels).size).toBe(labels.length);
+  });
+
+  it('only names textures that are loaded', () => {
+    const loaded = Object.keys(makeTextures());
+    for (const name of THEME_NAMES) {
+      const { pieces, squares, chairs } = THEMES[name];
+      for (const style of [
+        pieces.white,
+        pieces.black,
+        squares.light,
+        squares.dark,
+        chairs.white,
+        chairs.black,
+      ]) {
+        if (style.texture) expect(loaded).toContain(style.texture);
+      }
+    }
+  });
+});
+
+describe('applySurfaceStyle', () => {
+  it('sets the color, finish and a copy of the texture', () => {
+    const textures = makeTextures();
+    const material = new THREE.MeshStandardMaterial();
+    applySurfaceStyle(
+      material,
+      { color: 0x123456, texture: 'stone', metalness: 0.3, roughness: 0.6 },
+      textures
+    );
+    expect(material.color.getHex()).toBe(0x123456);
+    expect(material.metalness).toBe(0.3);
+    expect(material.roughness).toBe(0.6);
+    expect(material.map).not.toBe(textures.stone);
+    expect(material.map?.source).toBe(textures.stone.source);
+  });
+
+  it('keeps the placement of the texture it replaces', () => {
+    const textures = makeTextures();
+    const material = new THREE.MeshStandardMaterial();
+    const style = { color: 0xffffff, metalness: 0, roughness: 1 };
+    applySurfaceStyle(material, { ...style, texture: 'lightWood' }, textures);
+    material.map!.offset.set(0.25, 0.75);
+    const rotation = material.map!.rotation;
+
+    applySurfaceStyle(material, { ...style, texture: 'darkWood' }, textures);
+    expect(material.map?.source).toBe(textures.darkWood.source);
+    expect(material.map?.rotation).toBe(rotation);
+    expect(material.map?.offset.toArray()).toEqual([0.25, 0.75]);
+  });
+
+  it('drops the texture for a plain color, leaving the shared texture alone', () => {
+    const textures = makeTextures();
+    const material = new THREE.MeshStandardMaterial({ map: textures.whiteGranite });
+    let disposed = false;
+    textures.whiteGranite.addEventListener('dispose', () => (disposed = true));
+    applySurfaceStyle(
+      material,
+      { color: 0x000000, texture: null, metalness: 0, roughness: 1 },
+      textures
+    );
+    expect(material.map).toBeNull();
+    expect(disposed).toBe(false);
+  });
+
+  it('forgets the copies it disposes, however often the style changes', () => {
+    const textures = makeTextures();
+    const material = new THREE.MeshStandardMaterial();
+    const style = { color: 0xffffff, metalness: 0, roughness: 1 };
+    const before = texturesToDispose.length;
+    for (let i = 0; i < 10; i++) {
+      applySurfaceStyle(
+        material,
+        { ...style, texture: i % 2 ? 'darkWood' : 'lightWood' },
+        textures
+      );
+    }
+    expect(texturesToDispose.length).toBe(before + 1);
+    expect(texturesToDispose).toContain(material.map);
+  });
+});
+
+describe('applyLightRig', () => {
+  it('sets every light of the rig', () => {
+    const lights = buildLights(THEMES.classic.lighting);
+    const rig = { color: 0xff8800, ambient: 0.5, overhead: 0.4, sides: 0.2, exposure: 1 };
+    applyLightRig(lights, rig);
+    expect(lights[0].intensity).toBeCloseTo(0.5 * Math.PI);
+    expect(lights[1].intensity).toBeCloseTo(0.4 * Math.PI);
+    lights.slice(2).forEach((light) => expect(light.intensity).toBeCloseTo(0.2 * Math.PI));
+    lights.forEach((light) => expect(light.color.getHex()).toBe(0xff8800));
+  });
+});
+
+describe('isLightSquare', () => {
+  it('matches the board colors', () => {
+    expect(isLightSquare('a1')).toBe(false);
+    expect(isLightSquare('h1')).toBe(true);
+    expect(isLightSquare('d4')).toBe(false);
+    expect(isLightSquare('e4')).toBe(true);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_POSITION } from 'chess.js';
+import {
+  createUciEngine,
+  formatScore,
+  getWhiteShare,
+  parseInfoLine,
+  toWhitePerspective,
+  uciToSan,
+  type EngineAnalysis,
+  type UciTransport,
+} from '../app/uciEngine';
+
+const AFTER_E4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+const FOOLS_MATE = 'rnb1kbnr/pppp1ppp/8/4p3/6Pq/5P2/PPPPP2P/RNBQKBNR w KQkq - 1 3';
+const BACK_RANK_MATE = '3R2k1/5ppp/8/8/8/8/5PPP/6K1 b - - 1 1';
+
+// A stand-in engine that answers each command from a script. Replies to "go" are held
+// back until `finish` is called, like a real engine that is still thinking.
+function createFakeEngine(script: Record<string, string[]>) {
+  const sent: string[] = [];
+  let listener: (line: string) => void = () => {};
+  let held: string[] = [];
+  const transport: UciTransport = {
+    send: (command) => {
+      sent.push(command);
+      if (command.startsWith('go')) {
+        const position = [...sent].reverse().find((c) => c.startsWith('position')) ?? '';
+        held = script[position.replace('position fen ', '')] ?? [];
+        return;
+      }
+      if (command === 'stop') {
+        const stopped = held.filter((line) => line.startsWith('bestmove'));
+        held = [];
+        stopped.forEach((line) => listener(line));
+        return;
+      }
+      const replies: Record<string, string> = { uci: 'uciok', isready: 'readyok' };
+      if (replies[command]) listener(replies[command]);
+    },
+    onLine: (l) => {
+      listener = l;
+    },
+    onError: () => {},
+    terminate: () => {},
+  };
+  const finish = () => {
+    const lines = held;
+    held = [];
+    lines.forEach((line) => listener(line));
+  };
+  return { transport, sent, finish };
+}
+
+describe('UCI parsing', () => {
+  it('reads depth, score and principal variation from info lines', () => {
+    const info = parseInfoLine(
+      'info depth 12 seldepth 18 multipv 1 score cp 34 nodes 120000 nps 900000 pv e2e4 e7e5 g1f3'
+    );
+    expect(info).toEqual({
+      depth: 12,
+      score: { type: 'cp', value: 34 },
+      pv: ['e2e4', 'e7e5', 'g1f3'],
+    });
+    expect(parseInfoLine('info depth 3 score mate -2 pv h7h8')?.score).toEqual({
+      type: 'mate',
+      value: -2,
+    });
+    expect(parseInfoLine('info depth 0 score mate 0')).toEqual({
+      depth: 0,
+      score: { type: 'mate', value: 0 },
+      pv: [],
+    });
+    expect(parseInfoLine('info string NNUE enabled')).toBeNull();
+    expect(parseInfoLine('bestmove e2e4')).toBeNull();
+  });
+
+  it("reports scores from white's point of view", () => {
+    expect(toWhitePerspective({ type: 'cp', value: 50 }, DEFAULT_POSITION).value).toBe(50);
+    expect(toWhitePerspective({ type: 'cp', value: 50 }, AFTER_E4).value).toBe(-50);
+  });
+
+  it('formats scores and fills the bar', () => {
+    expect(formatScore({ type: 'cp', value: 34 })).toBe('+0.34');
+    expect(formatScore({ type: 'cp', value: -120 })).toBe('-1.20');
+    expect(formatScore({ type: 'mate', value: 3 })).toBe('M3');
+    expect(formatScore({ type: 'mate', value: -2 })).toBe('-M2');
+    expect(getWhiteShare({ type: 'cp', value: 0 }, DEFAULT_POSITION)).toBe(0.5);
+    expect(getWhiteShare({ type: 'cp', value: 300 }, DEFAULT_POSITION)).toBeGreaterThan(0.6);
+    expect(getWhiteShare({ type: 'mate', value: -1 }, DEFAULT_POSITION)).toBe(0);
+    // Already mated: fool's mate with white to move, and a back-rank mate with black to move
+    expect(getWhiteShare({ type: 'mate', value: 0 }, FOOLS_MATE)).toBe(0);
+    expect(getWhiteShare({ type: 'mate', value: 0 }, BACK_RANK_MATE)).toBe(1);
+  });
+
+  it('converts a principal variation to SAN', () => {
+    expect(uciToSan(DEFAULT_POSITION, ['e2e4', 'e7e5', 'g1f3', 'zzzz', 'b8c6'])).toEqual([
+      'e4',
+      'e5',
+      'Nf3',
+    ]);
+  });
+});
+
+describe('UCI engine adapter', () => {
+  it('handshakes before the first search', () => {
+    const { transport, sent } = createFakeEngine({});
+    const engine = createUciEngine(transport, { depth: 10 });
+    engine.analyze(DEFAULT_POSITION);
+    expect(sent).toEqual(['uci', 'isready', `position fen ${DEFAULT_POSITION}`, 'go depth 10']);
+  });
+
+  it('reports analysis as it deepens and the best move at the end', () => {
+    const { transport, finish } = createFakeEngine({
+      [AFTER_E4]: [
+        'info depth 1 score cp -20 pv e7e5',
+        'info depth 2 score cp -30 pv c7c5 g1f3',
+        'bestmove c7c5 ponder g1f3',
+      ],
+    });
+    const engine = createUciEngine(transport);
+    const results: EngineAnalysis[] = [];
+    engine.subscribe((event) => event.type === 'analysis' && results.push(event.analysis));
+    engine.analyze(AFTER_E4);
+    finish();
+
+    expect(results.map((r) => r.depth)).toEqual([1, 2, 2]);
+    const final = results[results.length - 1];
+    expect(final.fen).toBe(AFTER_E4);
+    expect(final.score).toEqual({ type: 'cp', value: 30 });
+    expect(final.pv).toEqual(['c7c5', 'g1f3']);
+    expect(final.bestMove).toBe('c7c5');
+  });
+
+  it('drops output from a search abandoned for a new position', () => {
+    const { transport, sent, finish } = createFakeEngine({
+      [DEFAULT_POSITION]: ['info depth 5 score cp 25 pv e2e4', 'bestmove e2e4'],
+      [AFTER_E4]: ['info depth 5 score cp -25 pv e7e5', 'bestmove e7e5'],
+    });
+    const engine = createUciEngine(transport);
+    const results: EngineAnalysis[] = [];
+    engine.subscribe((event) => event.type === 'analysis' && results.push(event.analysis));
+    engine.analyze(DEFAULT_POSITION);
+    engine.analyze(AFTER_E4);
+    expect(sent).toContain('stop');
+    finish();
+
+    expect(results.every((r) => r.fen === AFTER_E4)).toBe(true);
+    expect(results[results.length - 1].bestMove).toBe('e7e5');
+  });
+
+  it('reports a mated position, with or without a score from the engine', () => {
+    const { transport, finish } = createFakeEngine({
+      [FOOLS_MATE]: ['info depth 0 score mate 0', 'bestmove (none)'],
+      [BACK_RANK_MATE]: ['bestmove (none)'],
+    });
+    const engine = createUciEngine(transport);
+    const results: EngineAnalysis[] = [];
+    engine.subscribe((event) => event.type === 'analysis' && results.push(event.analysis));
+    engine.analyze(FOOLS_MATE);
+    finish();
+    engine.analyze(BACK_RANK_MATE);
+    finish();
+
+    const final = (fen: string) => results.filter((r) => r.fen === fen).at(-1);
+    expect(final(FOOLS_MATE)).toMatchObject({ score: { type: 'mate' }, pv: [], bestMove: null });
+    expect(getWhiteShare(final(FOOLS_MATE)!.score, FOOLS_MATE)).toBe(0);
+    expect(final(BACK_RANK_MATE)).toMatchObject({
+      score: { type: 'mate' },
+      pv: [],
+      bestMove: null,
+    });
+    expect(getWhiteShare(final(BACK_RANK_MATE)!.score, BACK_RANK_MATE)).toBe(1);
+  });
+});
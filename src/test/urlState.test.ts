@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compressPgn,
+  decompressPgn,
+  EMPTY_URL_STATE,
+  encodeSharedPgn,
+  formatUrlState,
+  MAX_SHARED_PGN_LENGTH,
+  parseUrlState,
+} from '../app/urlState';
+
+const PGN = '[White "Anderssen"]\n[Black "Kieseritzky"]\n\n1. e4 e5 2. f4 exf4 3. Bc4 Qh4+ 1-0';
+
+describe('URL state', () => {
+  it('round-trips the game, move, view and camera', () => {
+    const state = {
+      game: 'game_reti_study',
+      pgn: null,
+      moveIndex: 23,
+      view: 'black' as const,
+      camera: { phi: 0.9, theta: 2.5, distanceScale: 1.2 },
+    };
+    const hash = formatUrlState(state);
+    expect(hash).toBe('#game=game_reti_study&move=23&view=black&cam=0.90%2C2.50%2C1.20');
+    expect(parseUrlState(hash)).toEqual(state);
+  });
+
+  it('leaves out what is not set', () => {
+    expect(formatUrlState(EMPTY_URL_STATE)).toBe('');
+    expect(formatUrlState({ ...EMPTY_URL_STATE, game: 'a b', moveIndex: -1 })).toBe('#game=a+b');
+    expect(parseUrlState('')).toEqual(EMPTY_URL_STATE);
+  });
+
+  it('ignores values it does not understand', () => {
+    expect(parseUrlState('#move=abc&view=sideways&cam=1,2')).toEqual(EMPTY_URL_STATE);
+    expect(parseUrlState('#cam=1,2,-1').camera).toBeNull();
+  });
+});
+
+describe('shared PGN', () => {
+  it('compresses into URL-safe text and back', async () => {
+    const encoded = await compressPgn(PGN);
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(await decompressPgn(encoded)).toBe(PGN);
+
+    const hash = formatUrlState({ ...EMPTY_URL_STATE, game: 'upload.pgn', pgn: encoded });
+    expect(await decompressPgn(parseUrlState(hash).pgn!)).toBe(PGN);
+  });
+
+  it('keeps non-ASCII text intact', async () => {
+    const pgn = '[White "Nimzowitsch, Aron"]\n[Site "Kobenhavn ✓ Ø"]\n\n1. e4 *';
+    expect(await decompressPgn(await compressPgn(pgn))).toBe(pgn);
+  });
+
+  it('only embeds games that keep the link short', async () => {
+    expect(await encodeSharedPgn(PGN)).not.toBeNull();
+    // Pseudo-random text barely compresses
+    let noise = '';
+    let seed = 1;
+    for (let i = 0; i < MAX_SHARED_PGN_LENGTH * 2; i++) {
+      seed = (seed * 48271) % 2147483647;
+      noise += String.fromCharCode(33 + (seed % 89));
+    }
+    expect(await encodeSharedPgn(noise)).toBeNull();
+  });
+
+  it('rejects text that was not compressed', async () => {
+    await expect(decompressPgn('not-a-pgn')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { Chess } from 'chess.js';
+import { ANIMATION_DURATION } from '../app/pieceUtils';
+import { getMoveAnimationDuration, PAUSE_BETWEEN_MOVES } from '../app/playback';
+import { CROWN_DELAY } from '../app/scene/crown';
+import {
+  EXPORT_HOLD,
+  EXPORT_LEAD_IN,
+  getExportFilename,
+  planExportSegments,
+} from '../app/videoExport';
+
+const chess = new Chess();
+const MOVES = ['e4', 'd5', 'exd5', 'Qxd5'].map((san) => chess.move(san));
+
+describe('planExportSegments', () => {
+  it('opens on the position before the range and then plays each move', () => {
+    const segments = planExportSegments(MOVES, { fromIndex: 1, toIndex: 3 }, 30);
+    expect(segments.map((s) => s.moveIndex)).toEqual([0, 1, 2, 3]);
+    expect(segments[0].frames).toBe(EXPORT_LEAD_IN * 30);
+  });
+
+  it('gives each move its animation and rest, and the last one time for the crowns', () => {
+    const segments = planExportSegments(MOVES, { fromIndex: 0, toIndex: 3 }, 20);
+    expect(segments[1].frames).toBe(Math.ceil((ANIMATION_DURATION + PAUSE_BETWEEN_MOVES) * 20));
+    // A capture takes longer than a plain move
+    expect(segments[3].frames).toBe(
+      Math.ceil((getMoveAnimationDuration(MOVES[2]) + PAUSE_BETWEEN_MOVES) * 20)
+    );
+    expect(segments[4].frames).toBe(
+      Math.ceil((Math.max(getMoveAnimationDuration(MOVES[3]), CROWN_DELAY) + EXPORT_HOLD) * 20)
+    );
+  });
+
+  it('shortens the animations at a faster playback speed', () => {
+    const normal = planExportSegments(MOVES, { fromIndex: 0, toIndex: 0 }, 30, 1);
+    const fast = planExportSegments(MOVES, { fromIndex: 0, toIndex: 0 }, 30, 2);
+    expect(fast[1].frames).toBeLessThan(normal[1].frames);
+    expect(fast[0].frames).toBe(normal[0].frames);
+  });
+});
+
+describe('getExportFilename', () => {
+  it('makes a safe file name from the game title', () => {
+    expect(getExportFilename('Anderssen Vs. Kieseritzky', 'webm')).toBe(
+      'Anderssen_Vs_Kieseritzky.webm'
+    );
+    expect(getExportFilename('???', 'gif')).toBe('game.gif');
+  });
+});
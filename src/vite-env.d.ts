@@ -4,3 +4,7 @@ declare module '*.pgn?raw' {
   const content: string;
   export default content;
 }
+
+interface ImportMetaEnv {
+  readonly VITE_UCI_ENGINE?: string;
+}